@@ -1,93 +1,288 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { Mic, Loader2, Sparkles, Github, Clock, AlertTriangle } from 'lucide-react';
+import React, { useState, useCallback, useRef } from 'react';
+import { Mic, Sparkles, Github, Library as LibraryIcon, SpellCheck } from 'lucide-react';
 import FileUpload from './components/FileUpload';
 import TranscriptionDisplay from './components/TranscriptionDisplay';
+import Library from './components/Library';
+import Glossary from './components/Glossary';
+import BatchQueue from './components/BatchQueue';
+import ProcessingStatus from './components/ProcessingStatus';
+import ErrorRecovery from './components/ErrorRecovery';
+import { useBatchQueue } from './hooks/useBatchQueue';
 import { transcribeAudio, transcribeUrl } from './services/transcriptionService';
-import { TranscriptionStatus, TranscriptionResponse } from './types';
+import { saveTranscription, saveWorkspace, updateTranscription, getEntryAudioFile, getTranscription } from './services/libraryService';
+import { importTranscriptFile, importPlainText } from './services/importService';
+import { isAbortError } from './services/cancellation';
+import { TranscriptionError, toTranscriptionError } from './services/errors';
+import { estimateJobSeconds, recordJobTiming, JobKind } from './services/jobTimingService';
+import { TranscriptionStatus, TranscriptionResponse, LibraryEntry, TranscriptionWorkspace, ProgressEvent } from './types';
+
+// Último job iniciado (repetido pelas ações de recuperação de erro)
+type LastJob =
+  | { kind: 'file', file: File, language?: string, chunkSeconds?: number }
+  | { kind: 'url', url: string, language?: string };
+
+// Trechos menores usados em "Dividir e tentar de novo"
+const SPLIT_CHUNK_SECONDS = 120;
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<TranscriptionStatus>(TranscriptionStatus.IDLE);
   const [file, setFile] = useState<File | null>(null);
   const [result, setResult] = useState<TranscriptionResponse | null>(null);
   
-  // Progress & Time Estimation States
-  const [progress, setProgress] = useState(0);
+  // Progress & Time Estimation States (eventos reais do pipeline + estimativa pelo histórico)
+  const [progressEvent, setProgressEvent] = useState<ProgressEvent | null>(null);
+  const [jobKind, setJobKind] = useState<JobKind>('file');
+  const [jobStartedAt, setJobStartedAt] = useState(0);
   const [estimatedSeconds, setEstimatedSeconds] = useState(0);
-  const [remainingSeconds, setRemainingSeconds] = useState(0);
 
-  // Error Message State
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Error State: erro tipado + último job, para as ações de recuperação
+  const [jobError, setJobError] = useState<Error | null>(null);
+  const [quotaRetries, setQuotaRetries] = useState(0);
+  const lastJob = useRef<LastJob | null>(null);
 
-  // Progress Bar Logic
-  useEffect(() => {
-    if (status !== TranscriptionStatus.PROCESSING) {
-      setProgress(0);
-      return;
-    }
+  // Library States
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showGlossary, setShowGlossary] = useState(false);
+  const [activeEntry, setActiveEntry] = useState<LibraryEntry | null>(null);
+  // Trecho a posicionar ao abrir (resultado de busca ou citação na biblioteca)
+  const [openAtTime, setOpenAtTime] = useState<number | undefined>(undefined);
+  // Identifica o resultado em tela: muda a cada novo resultado, não quando ele
+  // ganha id na biblioteca (senão o TranscriptionDisplay remontaria no meio do uso)
+  const resultToken = useRef(0);
+  const [resultKey, setResultKey] = useState(0);
+  // Alterações feitas antes de o salvamento inicial terminar
+  const pendingWorkspace = useRef<TranscriptionWorkspace | null>(null);
+  const pendingAudio = useRef<File | null>(null);
+  // Estado inicial do resultado em tela (entrada aberta ou notas/traduções importadas)
+  const [initialWorkspace, setInitialWorkspace] = useState<Partial<TranscriptionWorkspace> | undefined>(undefined);
 
-    const interval = setInterval(() => {
-      setRemainingSeconds(prev => Math.max(0, prev - 1));
-      setProgress(prev => {
-        if (prev >= 95) return prev; // Stall at 95% until done
-        const increment = 100 / estimatedSeconds;
-        return Math.min(95, prev + increment);
-      });
-    }, 1000);
+  // Batch Queue
+  const batch = useBatchQueue();
+
+  // Job em andamento: abortado ao cancelar, resetar ou iniciar outro
+  const jobController = useRef<AbortController | null>(null);
+
+  // Começa um novo resultado e descarta o que estava pendente do anterior
+  const nextResult = (): number => {
+    resultToken.current += 1;
+    pendingWorkspace.current = null;
+    pendingAudio.current = null;
+    setActiveEntry(null);
+    setInitialWorkspace(undefined);
+    setResultKey(resultToken.current);
+    return resultToken.current;
+  };
 
-    return () => clearInterval(interval);
-  }, [status, estimatedSeconds]);
+  const beginJob = (kind: JobKind, bytes: number): AbortSignal => {
+    jobController.current?.abort();
+    const controller = new AbortController();
+    jobController.current = controller;
+    nextResult();
+    setJobKind(kind);
+    setJobStartedAt(Date.now());
+    setEstimatedSeconds(estimateJobSeconds(kind, bytes));
+    setProgressEvent(null);
+    return controller.signal;
+  };
+
+  const abortJob = () => {
+    jobController.current?.abort();
+    jobController.current = null;
+  };
+
+  // Salva o trabalho concluído na biblioteca local (falha não bloqueia a exibição).
+  // Se outro resultado tomou a tela enquanto salvava, a entrada não vira a ativa.
+  const persistResult = useCallback(async (
+    response: TranscriptionResponse,
+    audio: File | null,
+    sourceUrl?: string,
+    extras?: Partial<Pick<LibraryEntry, 'notes' | 'translations' | 'summary' | 'meetingSummary' | 'chapters'>>
+  ) => {
+    const token = nextResult();
+    setInitialWorkspace(extras);
+    try {
+      const entry = await saveTranscription(response, audio, sourceUrl, extras);
+      if (token !== resultToken.current) return;
+      const workspace = pendingWorkspace.current;
+      const attached = pendingAudio.current;
+      pendingWorkspace.current = null;
+      pendingAudio.current = null;
+      if (workspace) saveWorkspace(entry.id, workspace).catch(error => console.error("Erro ao salvar na biblioteca:", error));
+      if (attached) updateTranscription(entry.id, { audio: attached, audioName: attached.name }).catch(error => console.error("Erro ao salvar na biblioteca:", error));
+      setActiveEntry(entry);
+    } catch (error) {
+      console.error("Erro ao salvar na biblioteca:", error);
+    }
+  }, []);
 
   // Handle standard File Upload
-  const handleFileSelect = useCallback(async (selectedFile: File) => {
+  const handleFileSelect = useCallback(async (selectedFile: File, language?: string, chunkSeconds?: number) => {
+    lastJob.current = { kind: 'file', file: selectedFile, language, chunkSeconds };
     setFile(selectedFile);
     setStatus(TranscriptionStatus.PROCESSING);
-    setErrorMessage(null);
-    
-    // Estimate Time: 3s per MB, min 15s
-    const sizeMB = selectedFile.size / (1024 * 1024);
-    const est = Math.max(15, Math.ceil(sizeMB * 3));
-    setEstimatedSeconds(est);
-    setRemainingSeconds(est);
+    setJobError(null);
+    const signal = beginJob('file', selectedFile.size);
+    const startedAt = Date.now();
 
     try {
-      const response = await transcribeAudio(selectedFile);
+      const response = await transcribeAudio(selectedFile, { language, chunkSeconds, onProgress: (event) => { if (!signal.aborted) setProgressEvent(event); }, signal });
+      // Resultado de um job cancelado nunca chega à tela
+      if (signal.aborted) return;
+      recordJobTiming('file', selectedFile.size, (Date.now() - startedAt) / 1000);
+      setQuotaRetries(0);
       setResult(response);
       setStatus(TranscriptionStatus.COMPLETED);
+      persistResult(response, selectedFile);
     } catch (error: any) {
+      if (signal.aborted || isAbortError(error)) return;
       console.error(error);
-      setErrorMessage(error.message || "Ocorreu um erro inesperado ao processar o arquivo.");
+      setJobError(toTranscriptionError(error));
       setStatus(TranscriptionStatus.ERROR);
     }
-  }, []);
+  }, [persistResult]);
+
+  // Vários arquivos: vão para a fila em lote, sem sair da tela inicial
+  const handleFilesSelect = useCallback((files: File[], language?: string) => {
+    batch.enqueue(files, language);
+  }, [batch.enqueue]);
 
   // Handle URL Link
-  const handleUrlSelect = useCallback(async (url: string) => {
+  const handleUrlSelect = useCallback(async (url: string, language?: string) => {
+    lastJob.current = { kind: 'url', url, language };
     setFile(null); // No physical file
     setStatus(TranscriptionStatus.PROCESSING);
-    setErrorMessage(null);
-    
-    // Fixed estimation for URL (simulated)
-    const est = 20; 
-    setEstimatedSeconds(est);
-    setRemainingSeconds(est);
+    setJobError(null);
+    const signal = beginJob('url', 0);
+    const startedAt = Date.now();
 
     try {
-      const response = await transcribeUrl(url);
+      const response = await transcribeUrl(url, { language, onProgress: (event) => { if (!signal.aborted) setProgressEvent(event); }, signal });
+      if (signal.aborted) return;
+      recordJobTiming('url', 0, (Date.now() - startedAt) / 1000);
+      setQuotaRetries(0);
       setResult(response);
       setStatus(TranscriptionStatus.COMPLETED);
+      persistResult(response, null, url);
     } catch (error: any) {
+      if (signal.aborted || isAbortError(error)) return;
       console.error(error);
-      setErrorMessage(error.message || "Falha ao buscar o vídeo. Verifique o link ou tente novamente.");
+      setJobError(toTranscriptionError(error));
       setStatus(TranscriptionStatus.ERROR);
     }
-  }, []);
+  }, [persistResult]);
+
+  // Importa SRT/VTT/JSON existente (sem chamar a API), com áudio opcional
+  const handleImport = useCallback(async (transcriptFile: File, audioFile?: File) => {
+    setJobError(null);
+    try {
+      const imported = await importTranscriptFile(transcriptFile);
+      setFile(audioFile || null);
+      setResult(imported.response);
+      setStatus(TranscriptionStatus.COMPLETED);
+      persistResult(imported.response, audioFile || null, undefined, {
+        notes: imported.notes,
+        translations: imported.translations,
+        summary: imported.summary,
+        meetingSummary: imported.meetingSummary,
+        chapters: imported.chapters
+      });
+    } catch (error: any) {
+      console.error(error);
+      lastJob.current = null;
+      setJobError(error instanceof Error ? error : new Error("Não foi possível importar o arquivo."));
+      setStatus(TranscriptionStatus.ERROR);
+    }
+  }, [persistResult]);
+
+  // --- Recuperação de erros ---
+
+  const handleRetry = useCallback(() => {
+    const job = lastJob.current;
+    if (!job) return;
+    // Cada nova falha por cota dobra a espera da próxima tentativa automática
+    setQuotaRetries(n => jobError instanceof TranscriptionError && jobError.code === 'quota' ? n + 1 : 0);
+    if (job.kind === 'file') handleFileSelect(job.file, job.language, job.chunkSeconds);
+    else handleUrlSelect(job.url, job.language);
+  }, [jobError, handleFileSelect, handleUrlSelect]);
+
+  const handleRetrySplit = () => {
+    const job = lastJob.current;
+    if (job?.kind === 'file') handleFileSelect(job.file, job.language, SPLIT_CHUNK_SECONDS);
+  };
+
+  // Sem legendas públicas: o usuário cola a transcrição e segue com resumo, chat etc.
+  const handlePasteTranscript = (text: string) => {
+    const job = lastJob.current;
+    try {
+      const response = importPlainText(text, "Vídeo do YouTube");
+      setResult(response);
+      setJobError(null);
+      setStatus(TranscriptionStatus.COMPLETED);
+      persistResult(response, null, job?.kind === 'url' ? job.url : undefined);
+    } catch (error: any) {
+      setJobError(error);
+    }
+  };
+
+  // Reabre uma transcrição salva sem chamar a API novamente
+  const handleOpenEntry = (entry: LibraryEntry, time?: number) => {
+    nextResult();
+    setActiveEntry(entry);
+    setInitialWorkspace(entry);
+    setOpenAtTime(time);
+    setFile(getEntryAudioFile(entry));
+    setResult(entry.response);
+    setJobError(null);
+    setShowLibrary(false);
+    setStatus(TranscriptionStatus.COMPLETED);
+  };
+
+  // Abre um item concluído da fila (relido do banco para trazer edições já salvas)
+  const handleOpenBatchEntry = async (entry: LibraryEntry) => {
+    handleOpenEntry((await getTranscription(entry.id).catch(() => null)) || entry);
+  };
+
+  const activeEntryId = activeEntry?.id;
+  const handleWorkspaceChange = useCallback((workspace: TranscriptionWorkspace) => {
+    if (!activeEntryId) {
+      pendingWorkspace.current = workspace;
+      return;
+    }
+    saveWorkspace(activeEntryId, workspace).catch(error => console.error("Erro ao salvar na biblioteca:", error));
+  }, [activeEntryId]);
+
+  // Anexa o áudio a uma transcrição sem áudio (ex: importada) para sincronizar o player
+  const handleAttachAudio = useCallback((audio: File) => {
+    setFile(audio);
+    if (activeEntryId) {
+      updateTranscription(activeEntryId, { audio, audioName: audio.name }).catch(error => console.error("Erro ao salvar na biblioteca:", error));
+    } else {
+      pendingAudio.current = audio;
+    }
+  }, [activeEntryId]);
 
   const handleReset = () => {
+    abortJob();
+    nextResult();
     setFile(null);
     setResult(null);
+    setOpenAtTime(undefined);
     setStatus(TranscriptionStatus.IDLE);
-    setErrorMessage(null);
-    setProgress(0);
+    setJobError(null);
+    setQuotaRetries(0);
+    setProgressEvent(null);
+  };
+
+  const handleShowLibrary = () => {
+    handleReset();
+    setShowGlossary(false);
+    setShowLibrary(true);
+  };
+
+  const handleShowGlossary = () => {
+    handleReset();
+    setShowLibrary(false);
+    setShowGlossary(true);
   };
 
   return (
@@ -103,9 +298,17 @@ const App: React.FC = () => {
               ClariaAI
             </span>
           </div>
-          <a href="#" className="text-slate-400 hover:text-blue-600 transition-colors">
-            <Github size={20} />
-          </a>
+          <div className="flex items-center gap-4">
+            <button onClick={handleShowLibrary} className="flex items-center gap-2 text-sm font-semibold text-slate-500 hover:text-blue-600 transition-colors">
+              <LibraryIcon size={18} /> Biblioteca
+            </button>
+            <button onClick={handleShowGlossary} className="flex items-center gap-2 text-sm font-semibold text-slate-500 hover:text-blue-600 transition-colors">
+              <SpellCheck size={18} /> Glossário
+            </button>
+            <a href="#" className="text-slate-400 hover:text-blue-600 transition-colors">
+              <Github size={20} />
+            </a>
+          </div>
         </div>
       </nav>
 
@@ -113,7 +316,7 @@ const App: React.FC = () => {
       <main className="flex-grow flex flex-col items-center justify-start pt-10 pb-12 px-4 sm:px-6">
         
         {/* Header Text (Show only if no result yet) */}
-        {!result && status !== TranscriptionStatus.PROCESSING && (
+        {!result && !showLibrary && !showGlossary && status !== TranscriptionStatus.PROCESSING && (
           <div className="text-center max-w-3xl mb-12">
             <h1 className="text-4xl sm:text-5xl font-extrabold text-slate-900 tracking-tight mb-6 leading-tight">
               ClariaAI: <br className="sm:hidden" />
@@ -135,64 +338,73 @@ const App: React.FC = () => {
 
         {/* Dynamic Content Area */}
         <div className="w-full">
-          {status === TranscriptionStatus.IDLE && (
+          {status === TranscriptionStatus.IDLE && showLibrary && (
+             <Library onOpen={handleOpenEntry} onClose={() => setShowLibrary(false)} />
+          )}
+
+          {status === TranscriptionStatus.IDLE && showGlossary && (
+             <Glossary onClose={() => setShowGlossary(false)} />
+          )}
+
+          {status === TranscriptionStatus.IDLE && !showLibrary && !showGlossary && (
              <div className="animate-in fade-in zoom-in-95 duration-500">
-                <FileUpload onFileSelect={handleFileSelect} onUrlSelect={handleUrlSelect} status={status} />
+                {batch.jobs.length > 0 && (
+                  <BatchQueue
+                    jobs={batch.jobs}
+                    concurrency={batch.concurrency}
+                    isFinished={batch.isFinished}
+                    onConcurrencyChange={batch.setConcurrency}
+                    onRetry={batch.retry}
+                    onCancel={batch.cancel}
+                    onCancelAll={batch.cancelAll}
+                    onRemove={batch.remove}
+                    onClearFinished={batch.clearFinished}
+                    onOpen={handleOpenBatchEntry}
+                  />
+                )}
+                <FileUpload onFileSelect={handleFileSelect} onFilesSelect={handleFilesSelect} onUrlSelect={handleUrlSelect} onImport={handleImport} status={status} />
              </div>
           )}
 
           {(status === TranscriptionStatus.UPLOADING || status === TranscriptionStatus.PROCESSING) && (
-            <div className="flex flex-col items-center justify-center py-16 animate-in fade-in duration-500 max-w-lg mx-auto">
-              <div className="w-full bg-slate-100 rounded-full h-4 mb-6 overflow-hidden relative">
-                 <div 
-                   className="h-full bg-gradient-to-r from-blue-500 to-blue-600 transition-all duration-1000 ease-linear rounded-full"
-                   style={{ width: `${progress}%` }}
-                 ></div>
-                 <div className="absolute inset-0 bg-white/20 animate-[shimmer_2s_infinite]"></div>
-              </div>
-              
-              <div className="text-center space-y-3">
-                 <div className="flex items-center justify-center gap-2 text-blue-700 font-semibold text-lg">
-                    <Loader2 size={24} className="animate-spin" />
-                    <span>Processando Áudio...</span>
-                 </div>
-                 
-                 <div className="flex items-center justify-center gap-2 text-slate-500 text-sm font-medium bg-slate-50 py-1.5 px-4 rounded-full border border-slate-200">
-                    <Clock size={14} />
-                    <span>Conclusão estimada em ~{remainingSeconds} segundos</span>
-                 </div>
-
-                 <p className="text-slate-400 text-xs mt-4">
-                   Estamos transcrevendo, resumindo e gerando metadados inteligentes.
-                 </p>
-              </div>
-            </div>
+            <ProcessingStatus
+              source={jobKind}
+              event={progressEvent}
+              startedAt={jobStartedAt}
+              estimatedSeconds={estimatedSeconds}
+              onCancel={handleReset}
+            />
           )}
 
           {status === TranscriptionStatus.COMPLETED && result && (
             <div className="animate-in fade-in slide-in-from-bottom-8 duration-700">
               <TranscriptionDisplay 
+                key={resultKey}
                 transcription={result.text}
                 segments={result.segments}
                 audioFile={file} // Can be null if URL was used
                 onReset={handleReset}
                 category={result.category}
+                language={result.language}
                 metadata={result.metadata}
+                initialWorkspace={initialWorkspace}
+                initialTime={openAtTime}
+                profileId={result.profileId}
+                onWorkspaceChange={handleWorkspaceChange}
+                onAttachAudio={handleAttachAudio}
               />
             </div>
           )}
 
-          {status === TranscriptionStatus.ERROR && (
-             <div className="text-center py-12 animate-in fade-in">
-               <div className="bg-red-50 border border-red-100 text-red-700 px-8 py-6 rounded-2xl inline-flex flex-col items-center mb-6 shadow-sm max-w-md">
-                 <AlertTriangle size={32} className="mb-3 text-red-500" />
-                 <h3 className="font-bold text-lg mb-1">Erro no Processamento</h3>
-                 <p className="text-sm text-center opacity-90">{errorMessage || "Ocorreu um erro desconhecido."}</p>
-               </div>
-               <button onClick={handleReset} className="block mx-auto text-blue-600 font-semibold hover:text-blue-800 transition-colors bg-blue-50 hover:bg-blue-100 px-6 py-2 rounded-full">
-                 Tentar Novamente
-               </button>
-             </div>
+          {status === TranscriptionStatus.ERROR && jobError && (
+            <ErrorRecovery
+              error={jobError}
+              quotaRetries={quotaRetries}
+              onRetry={lastJob.current ? handleRetry : undefined}
+              onRetrySplit={lastJob.current?.kind === 'file' ? handleRetrySplit : undefined}
+              onPasteTranscript={lastJob.current?.kind === 'url' ? handlePasteTranscript : undefined}
+              onReset={handleReset}
+            />
           )}
         </div>
       </main>
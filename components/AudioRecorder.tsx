@@ -0,0 +1,203 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, Pause, Play, Square, Loader2, Radio } from 'lucide-react';
+import { useAudioRecorder } from '../hooks/useAudioRecorder';
+import { transcribeChunk } from '../services/transcriptionService';
+import { encodeWav } from '../services/audioChunker';
+import { isAbortError } from '../services/cancellation';
+import { TranscriptionSegment } from '../types';
+
+interface AudioRecorderProps {
+  language?: string;
+  // Recebe a gravação final, que segue o mesmo fluxo de um arquivo enviado
+  onComplete: (file: File) => void;
+  onCancel: () => void;
+}
+
+// A cada quantos segundos de gravação um novo trecho é transcrito ao vivo
+const LIVE_INTERVAL_SECONDS = 15;
+
+const concatSamples = (parts: Float32Array[]): Float32Array => {
+  const result = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+const AudioRecorder: React.FC<AudioRecorderProps> = ({ language, onComplete, onCancel }) => {
+  const [liveEnabled, setLiveEnabled] = useState(true);
+  const [partialSegments, setPartialSegments] = useState<TranscriptionSegment[]>([]);
+  const [isTranscribingLive, setIsTranscribingLive] = useState(false);
+
+  // Duração (segundos) de tudo que já foi gravado, com ou sem transcrição ao vivo
+  const recordedSecondsRef = useRef(0);
+  // Início (segundos) do áudio pendente na gravação
+  const liveOffsetRef = useRef(0);
+  const liveBusyRef = useRef(false);
+  // Áudio contínuo a partir de liveOffsetRef, ainda não transcrito
+  const pendingSamplesRef = useRef<Float32Array[]>([]);
+  const sampleRateRef = useRef(0);
+  // Depois de uma falha, espera um intervalo antes de tentar o mesmo trecho de novo
+  const liveRetryAtRef = useRef(0);
+  const liveEnabledRef = useRef(liveEnabled);
+  liveEnabledRef.current = liveEnabled;
+
+  const { state, elapsed, level, error, start, pause, resume, stop } = useAudioRecorder((samples, sampleRate) => {
+    sampleRateRef.current = sampleRate;
+    const chunkStart = recordedSecondsRef.current;
+    recordedSecondsRef.current += samples.length / sampleRate;
+    if (liveEnabledRef.current) {
+      if (pendingSamplesRef.current.length === 0) liveOffsetRef.current = chunkStart;
+      pendingSamplesRef.current.push(samples);
+    } else {
+      // Sem transcrição ao vivo o pendente é descartado; ao religar, o novo
+      // trecho começa no tempo real da gravação
+      pendingSamplesRef.current = [];
+      liveRetryAtRef.current = 0;
+    }
+  });
+  const partialEndRef = useRef<HTMLDivElement>(null);
+  // Cancela a transcrição parcial pendente ao sair da tela de gravação
+  const liveControllerRef = useRef<AbortController | null>(null);
+  useEffect(() => {
+    const controller = new AbortController();
+    liveControllerRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  const handleStart = async () => {
+    recordedSecondsRef.current = 0;
+    liveOffsetRef.current = 0;
+    liveRetryAtRef.current = 0;
+    pendingSamplesRef.current = [];
+    setPartialSegments([]);
+    await start();
+  };
+
+  // Transcrição parcial: envia só o áudio gravado desde o último trecho transcrito
+  useEffect(() => {
+    if (!liveEnabled || state !== 'recording' || liveBusyRef.current || elapsed < liveRetryAtRef.current) return;
+    const sampleRate = sampleRateRef.current;
+    const pending = pendingSamplesRef.current;
+    if (!sampleRate || pending.reduce((sum, part) => sum + part.length, 0) / sampleRate < LIVE_INTERVAL_SECONDS) return;
+
+    // Junta o pendente em um bloco; o que chegar durante o envio fica para o próximo
+    const samples = concatSamples(pending);
+    pendingSamplesRef.current = [samples];
+    const from = liveOffsetRef.current;
+    liveBusyRef.current = true;
+    setIsTranscribingLive(true);
+
+    (async () => {
+      try {
+        const signal = liveControllerRef.current?.signal;
+        // A prévia mostra só o texto: sem tempos por palavra, que deixam a resposta mais lenta
+        const segments = await transcribeChunk(encodeWav(samples, sampleRate), { language, signal, wordTimings: false });
+        if (signal?.aborted) return;
+        // Se o pendente foi descartado no meio do envio, o que chegou depois já tem o próprio início
+        if (pendingSamplesRef.current[0] === samples) {
+          pendingSamplesRef.current = pendingSamplesRef.current.slice(1);
+          liveOffsetRef.current = from + samples.length / sampleRate;
+        }
+        setPartialSegments(prev => [...prev, ...segments.map(seg => ({ ...seg, start: seg.start + from, end: seg.end + from }))]);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.warn("Falha na transcrição ao vivo:", err);
+        // O trecho continua pendente; tenta de novo no próximo intervalo
+        liveRetryAtRef.current = elapsed + LIVE_INTERVAL_SECONDS;
+      } finally {
+        liveBusyRef.current = false;
+        setIsTranscribingLive(false);
+      }
+    })();
+  }, [elapsed, state, liveEnabled, language]);
+
+  useEffect(() => {
+    partialEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [partialSegments]);
+
+  const handleStop = async () => {
+    const file = await stop();
+    if (file) onComplete(file);
+  };
+
+  const isActive = state !== 'idle';
+
+  return (
+    <div className="rounded-2xl border-2 border-slate-200 bg-slate-50/50 p-6 space-y-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+          <Mic size={20} className="text-red-500" /> Gravar do Microfone
+        </h3>
+        <label className="flex items-center gap-2 text-xs font-medium text-slate-500 cursor-pointer">
+          <input type="checkbox" checked={liveEnabled} onChange={(e) => setLiveEnabled(e.target.checked)} className="accent-blue-600" />
+          Transcrição ao vivo
+        </label>
+      </div>
+
+      <div className="flex items-center gap-4">
+        <span className={`font-mono text-2xl font-semibold w-24 ${state === 'recording' ? 'text-red-600' : 'text-slate-600'}`}>
+          {formatElapsed(elapsed)}
+        </span>
+        {/* Level Meter */}
+        <div className="flex-grow h-3 bg-slate-200 rounded-full overflow-hidden">
+          <div
+            className={`h-full rounded-full transition-[width] duration-75 ${level > 0.8 ? 'bg-red-500' : 'bg-green-500'}`}
+            style={{ width: `${Math.round(level * 100)}%` }}
+          ></div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-center gap-3">
+        {!isActive ? (
+          <>
+            <button onClick={handleStart} className="flex items-center gap-2 px-5 py-2.5 bg-red-600 text-white rounded-full font-semibold hover:bg-red-700 shadow-sm">
+              <Mic size={18} /> Iniciar Gravação
+            </button>
+            <button onClick={onCancel} className="px-4 py-2.5 text-slate-500 font-semibold hover:text-slate-700">Cancelar</button>
+          </>
+        ) : (
+          <>
+            {state === 'recording' ? (
+              <button onClick={pause} className="flex items-center gap-2 px-4 py-2.5 bg-white border border-slate-200 text-slate-700 rounded-full font-semibold hover:border-blue-300">
+                <Pause size={18} /> Pausar
+              </button>
+            ) : (
+              <button onClick={resume} className="flex items-center gap-2 px-4 py-2.5 bg-white border border-slate-200 text-slate-700 rounded-full font-semibold hover:border-blue-300">
+                <Play size={18} /> Retomar
+              </button>
+            )}
+            <button onClick={handleStop} className="flex items-center gap-2 px-5 py-2.5 bg-slate-900 text-white rounded-full font-semibold hover:bg-blue-600">
+              <Square size={16} fill="currentColor" /> Parar e Transcrever
+            </button>
+          </>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+
+      {liveEnabled && isActive && (
+        <div className="bg-white border border-slate-100 rounded-xl p-4 max-h-48 overflow-y-auto text-sm text-slate-600 leading-relaxed">
+          <div className="flex items-center gap-2 text-xs font-bold uppercase tracking-wide text-slate-400 mb-2">
+            <Radio size={12} className={state === 'recording' ? 'text-red-500 animate-pulse' : ''} /> Prévia ao vivo
+            {isTranscribingLive && <Loader2 size={12} className="animate-spin" />}
+          </div>
+          {partialSegments.length === 0
+            ? <p className="text-slate-400 italic">O texto aparece aqui a cada {LIVE_INTERVAL_SECONDS} segundos de gravação...</p>
+            : partialSegments.map((seg, i) => <span key={i}>{seg.text} </span>)}
+          <div ref={partialEndRef}></div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const formatElapsed = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+export default AudioRecorder;
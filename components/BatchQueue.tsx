@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { Layers, CheckCircle2, AlertTriangle, Loader2, Clock, RotateCcw, X, Trash2, Download, ExternalLink } from 'lucide-react';
+import { TranscriptionStatus, LibraryEntry } from '../types';
+import { BatchJob } from '../hooks/useBatchQueue';
+import { buildFileName, buildSubtitleCues, downloadFile, formatSpeakerTranscript, toAppJson, toSrt, toZip, ZipEntry } from '../services/exportService';
+
+interface BatchQueueProps {
+  jobs: BatchJob[];
+  concurrency: number;
+  isFinished: boolean;
+  onConcurrencyChange: (value: number) => void;
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+  onCancelAll: () => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+  onOpen: (entry: LibraryEntry) => void;
+}
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const BatchQueue: React.FC<BatchQueueProps> = ({
+  jobs, concurrency, isFinished, onConcurrencyChange, onRetry, onCancel, onCancelAll, onRemove, onClearFinished, onOpen
+}) => {
+  const [isZipping, setIsZipping] = useState(false);
+  const [zipError, setZipError] = useState<string | null>(null);
+
+  const completed = jobs.filter(job => job.status === TranscriptionStatus.COMPLETED && job.result);
+  const failed = jobs.filter(job => job.status === TranscriptionStatus.ERROR).length;
+  const pending = jobs.length - completed.length - failed;
+
+  // TXT, SRT e JSON (o mesmo da exportação individual, que o app importa de volta) em um único ZIP
+  const handleZipExport = async () => {
+    setIsZipping(true);
+    setZipError(null);
+    try {
+      const entries: ZipEntry[] = completed.flatMap(job => {
+        const response = job.result!;
+        const entry = job.entry;
+        const title = response.metadata?.title || job.file.name.replace(/\.[^.]+$/, '');
+        const hasSpeakers = response.segments.some(seg => seg.speaker);
+        return [
+          { name: buildFileName(title, 'txt'), content: hasSpeakers ? formatSpeakerTranscript(response.segments) : response.text },
+          { name: buildFileName(title, 'srt'), content: toSrt(buildSubtitleCues(response.segments)) },
+          {
+            name: buildFileName(title, 'json'),
+            content: toAppJson({
+              metadata: response.metadata,
+              category: response.category,
+              language: response.language,
+              segments: response.segments,
+              text: response.text,
+              notes: entry?.notes ?? [],
+              translations: entry?.translations ?? {},
+              summary: entry?.summary ?? null,
+              meetingSummary: entry?.meetingSummary ?? null,
+              chapters: entry?.chapters ?? null
+            })
+          }
+        ];
+      });
+      const stamp = new Date().toISOString().slice(0, 10);
+      downloadFile(await toZip(entries), 'application/zip', buildFileName(`transcricoes-${stamp}`, 'zip'));
+    } catch (error) {
+      console.error("Erro ao exportar ZIP:", error);
+      setZipError("Não foi possível gerar o arquivo ZIP. Tente novamente.");
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-xl mx-auto mb-8 bg-white border border-slate-200 rounded-2xl shadow-sm overflow-hidden animate-in fade-in">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-3 px-5 py-4 border-b border-slate-100 bg-slate-50/50">
+        <div className="flex items-center gap-2">
+          <Layers size={18} className="text-blue-600" />
+          <h3 className="font-bold text-slate-900">Fila de Transcrição</h3>
+          <span className="text-xs font-medium text-slate-500">
+            {completed.length}/{jobs.length} concluídos{failed > 0 ? ` · ${failed} com erro` : ''}
+          </span>
+        </div>
+        <label className="flex items-center gap-2 text-xs font-medium text-slate-500">
+          Simultâneos:
+          <select
+            value={concurrency}
+            onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+            className="bg-white border border-slate-200 text-xs font-semibold text-slate-700 rounded-lg px-1.5 py-1 focus:outline-none focus:border-blue-400"
+          >
+            {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {/* Jobs */}
+      <ul className="divide-y divide-slate-100 max-h-80 overflow-y-auto">
+        {jobs.map(job => (
+          <li key={job.id} className="px-5 py-3 flex items-center gap-3">
+            <StatusIcon status={job.status} />
+            <div className="flex-grow min-w-0">
+              <p className="text-sm font-medium text-slate-800 truncate" title={job.file.name}>
+                {job.result?.metadata?.title || job.file.name}
+              </p>
+              {job.status === TranscriptionStatus.PROCESSING && (
+                <div className="w-full bg-slate-100 rounded-full h-1.5 mt-1.5 overflow-hidden">
+                  <div className="h-full bg-blue-500 rounded-full transition-all duration-500" style={{ width: `${Math.round(job.progress * 100)}%` }}></div>
+                </div>
+              )}
+              {job.status === TranscriptionStatus.IDLE && <p className="text-xs text-slate-400">Na fila</p>}
+              {job.status === TranscriptionStatus.ERROR && <p className="text-xs text-red-500 truncate" title={job.error}>{job.error}</p>}
+              {job.status === TranscriptionStatus.COMPLETED && <p className="text-xs text-slate-400 truncate">{job.file.name}</p>}
+            </div>
+            <div className="flex items-center gap-1 flex-shrink-0">
+              {job.status === TranscriptionStatus.COMPLETED && job.entry && (
+                <button onClick={() => onOpen(job.entry!)} className="p-1.5 text-slate-400 hover:text-blue-600 rounded-lg hover:bg-blue-50" title="Abrir">
+                  <ExternalLink size={16} />
+                </button>
+              )}
+              {job.status === TranscriptionStatus.ERROR && (
+                <button onClick={() => onRetry(job.id)} className="p-1.5 text-slate-400 hover:text-blue-600 rounded-lg hover:bg-blue-50" title="Tentar novamente">
+                  <RotateCcw size={16} />
+                </button>
+              )}
+              {(job.status === TranscriptionStatus.IDLE || job.status === TranscriptionStatus.PROCESSING) ? (
+                <button onClick={() => onCancel(job.id)} className="p-1.5 text-slate-400 hover:text-red-600 rounded-lg hover:bg-red-50" title="Cancelar">
+                  <X size={16} />
+                </button>
+              ) : (
+                <button onClick={() => onRemove(job.id)} className="p-1.5 text-slate-400 hover:text-red-600 rounded-lg hover:bg-red-50" title="Remover da fila">
+                  <Trash2 size={16} />
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {/* Footer Actions */}
+      <div className="flex items-center justify-between gap-3 px-5 py-3 border-t border-slate-100">
+        {pending > 0 ? (
+          <button onClick={onCancelAll} className="text-xs font-semibold text-slate-500 hover:text-red-600">Cancelar todos</button>
+        ) : (
+          <button onClick={onClearFinished} className="text-xs font-semibold text-slate-500 hover:text-slate-800">Limpar fila</button>
+        )}
+        {isFinished && completed.length > 0 && (
+          <button
+            onClick={handleZipExport}
+            disabled={isZipping}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-900 text-white text-sm font-semibold rounded-lg hover:bg-blue-600 disabled:opacity-50 transition-colors"
+          >
+            {isZipping ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            Baixar tudo (.zip)
+          </button>
+        )}
+      </div>
+      {zipError && <p className="px-5 pb-3 text-xs text-red-600">{zipError}</p>}
+    </div>
+  );
+};
+
+const StatusIcon: React.FC<{ status: TranscriptionStatus }> = ({ status }) => {
+  switch (status) {
+    case TranscriptionStatus.COMPLETED: return <CheckCircle2 size={18} className="text-green-500 flex-shrink-0" />;
+    case TranscriptionStatus.ERROR: return <AlertTriangle size={18} className="text-red-500 flex-shrink-0" />;
+    case TranscriptionStatus.PROCESSING: return <Loader2 size={18} className="text-blue-600 animate-spin flex-shrink-0" />;
+    default: return <Clock size={18} className="text-slate-400 flex-shrink-0" />;
+  }
+};
+
+export default BatchQueue;
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, RotateCcw, Scissors, FileAudio, ClipboardPaste, KeyRound, Clock } from 'lucide-react';
+import { TranscriptionError, TranscriptionErrorCode } from '../services/errors';
+
+interface ErrorRecoveryProps {
+  error: Error;
+  // Quantas vezes o job já foi repetido por limite de cota (define o backoff)
+  quotaRetries: number;
+  onRetry?: () => void;
+  onRetrySplit?: () => void;
+  onPasteTranscript?: (text: string) => void;
+  onReset: () => void;
+}
+
+const TITLES: Record<TranscriptionErrorCode, string> = {
+  missing_api_key: 'Chave da API ausente',
+  quota: 'Limite de uso atingido',
+  payload_too_large: 'Arquivo grande demais',
+  unsupported_media: 'Formato não suportado',
+  safety_block: 'Conteúdo bloqueado',
+  malformed_response: 'Resposta inválida do modelo',
+  no_captions: 'Legendas não encontradas',
+  unknown: 'Erro no Processamento'
+};
+
+const HINTS: Partial<Record<TranscriptionErrorCode, string>> = {
+  missing_api_key: 'Defina GEMINI_API_KEY no arquivo .env.local e reinicie o servidor (npm run dev).',
+  payload_too_large: 'Podemos dividir o áudio em trechos menores e enviar um de cada vez.',
+  unsupported_media: 'Converta o arquivo para MP3 ou WAV e envie novamente.',
+  safety_block: 'O modelo se recusou a processar este conteúdo. Tente outro arquivo ou trecho.',
+  malformed_response: 'Costuma ser passageiro: tente novamente.',
+  no_captions: 'Se você tiver a transcrição do vídeo, cole-a abaixo para continuar com resumo, chat e exportações.'
+};
+
+// Backoff padrão quando a API não informa quanto esperar
+const BASE_QUOTA_WAIT_SECONDS = 15;
+const MAX_QUOTA_WAIT_SECONDS = 120;
+
+const ErrorRecovery: React.FC<ErrorRecoveryProps> = ({ error, quotaRetries, onRetry, onRetrySplit, onPasteTranscript, onReset }) => {
+  const code: TranscriptionErrorCode = error instanceof TranscriptionError ? error.code : 'unknown';
+  const [pastedText, setPastedText] = useState('');
+
+  // Cota: nova tentativa automática com espera crescente
+  const quotaWait = error instanceof TranscriptionError && code === 'quota'
+    ? Math.min(MAX_QUOTA_WAIT_SECONDS, error.retryAfterSeconds ?? BASE_QUOTA_WAIT_SECONDS * 2 ** quotaRetries)
+    : 0;
+  const [countdown, setCountdown] = useState(quotaWait);
+
+  useEffect(() => {
+    if (!quotaWait || !onRetry) return;
+    const deadline = Date.now() + quotaWait * 1000;
+    const interval = setInterval(() => {
+      const left = Math.ceil((deadline - Date.now()) / 1000);
+      if (left > 0) { setCountdown(left); return; }
+      clearInterval(interval);
+      onRetry();
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [quotaWait, onRetry]);
+
+  const hint = HINTS[code];
+
+  return (
+    <div className="text-center py-12 animate-in fade-in">
+      <div className="bg-red-50 border border-red-100 text-red-700 px-8 py-6 rounded-2xl inline-flex flex-col items-center mb-6 shadow-sm max-w-md">
+        {code === 'missing_api_key'
+          ? <KeyRound size={32} className="mb-3 text-red-500" />
+          : <AlertTriangle size={32} className="mb-3 text-red-500" />}
+        <h3 className="font-bold text-lg mb-1">{TITLES[code]}</h3>
+        <p className="text-sm text-center opacity-90">{error.message || "Ocorreu um erro desconhecido."}</p>
+        {hint && <p className="text-xs text-center text-red-600/80 mt-2">{hint}</p>}
+        {code === 'quota' && onRetry && countdown > 0 && (
+          <p className="flex items-center gap-1.5 text-xs font-semibold mt-3">
+            <Clock size={14} /> Nova tentativa automática em {countdown}s
+          </p>
+        )}
+      </div>
+
+      {code === 'no_captions' && onPasteTranscript && (
+        <div className="max-w-xl mx-auto mb-6 text-left">
+          <textarea
+            value={pastedText}
+            onChange={(e) => setPastedText(e.target.value)}
+            placeholder="Cole aqui a transcrição (um parágrafo por fala; &quot;Nome: texto&quot; identifica o locutor)..."
+            className="w-full h-40 p-4 text-sm text-slate-700 bg-white border border-slate-200 rounded-xl focus:outline-none focus:border-blue-400 resize-none"
+          />
+          <button
+            onClick={() => onPasteTranscript(pastedText)}
+            disabled={!pastedText.trim()}
+            className="mt-2 flex items-center gap-2 mx-auto px-5 py-2 bg-slate-900 text-white text-sm font-semibold rounded-full hover:bg-blue-600 disabled:bg-slate-200 disabled:cursor-not-allowed transition-colors"
+          >
+            <ClipboardPaste size={16} /> Usar esta transcrição
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        {code === 'payload_too_large' && onRetrySplit && (
+          <button onClick={onRetrySplit} className="flex items-center gap-2 text-white font-semibold bg-blue-600 hover:bg-blue-700 px-6 py-2 rounded-full transition-colors">
+            <Scissors size={16} /> Dividir e tentar de novo
+          </button>
+        )}
+        {onRetry && code !== 'unsupported_media' && code !== 'safety_block' && (
+          <button onClick={onRetry} className="flex items-center gap-2 text-blue-600 font-semibold hover:text-blue-800 transition-colors bg-blue-50 hover:bg-blue-100 px-6 py-2 rounded-full">
+            <RotateCcw size={16} /> {code === 'quota' ? 'Tentar agora' : 'Tentar Novamente'}
+          </button>
+        )}
+        <button onClick={onReset} className="flex items-center gap-2 text-slate-600 font-semibold hover:text-slate-900 transition-colors bg-slate-100 hover:bg-slate-200 px-6 py-2 rounded-full">
+          <FileAudio size={16} /> Escolher outro arquivo
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ErrorRecovery;
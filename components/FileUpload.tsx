@@ -1,25 +1,48 @@
 import React, { useCallback, useState } from 'react';
-import { UploadCloud, AlertCircle, Link as LinkIcon, ArrowRight, Youtube } from 'lucide-react';
-import { TranscriptionStatus } from '../types';
+import { UploadCloud, AlertCircle, Link as LinkIcon, ArrowRight, Youtube, Languages, FileInput, Mic, SlidersHorizontal } from 'lucide-react';
+import { PromptProfile, TranscriptionStatus } from '../types';
+import { SUPPORTED_LANGUAGES } from '../services/languages';
+import { IMPORT_EXTENSIONS } from '../services/importService';
+import { getActiveProfile, loadProfiles, setActiveProfileId } from '../services/profileService';
+import AudioRecorder from './AudioRecorder';
+import ProfileEditor from './ProfileEditor';
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
-  onUrlSelect: (url: string) => void;
+  // `language` ausente = detecção automática do idioma
+  onFileSelect: (file: File, language?: string) => void;
+  // Vários arquivos de uma vez vão para a fila em lote
+  onFilesSelect: (files: File[], language?: string) => void;
+  onUrlSelect: (url: string, language?: string) => void;
+  // Legenda/transcrição existente, opcionalmente com o áudio correspondente
+  onImport: (transcriptFile: File, audioFile?: File) => void;
   status: TranscriptionStatus;
 }
 
 const ALLOWED_EXTENSIONS = ['.mp3', '.wav', '.m4a'];
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, onUrlSelect, status }) => {
+const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, onFilesSelect, onUrlSelect, onImport, status }) => {
   const [dragActive, setDragActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [urlInput, setUrlInput] = useState('');
+  const [language, setLanguage] = useState('');
+  const [isRecording, setIsRecording] = useState(false);
+  // Perfil ativo vale para as próximas transcrições (fica salvo entre sessões)
+  const [profiles, setProfiles] = useState<PromptProfile[]>(loadProfiles);
+  const [profileId, setProfileId] = useState(() => getActiveProfile().id);
+  const [isEditingProfiles, setIsEditingProfiles] = useState(false);
 
-  const validateFile = (file: File): boolean => {
+  const selectProfile = (id: string) => {
+    setProfileId(id);
+    setActiveProfileId(id);
+  };
+
+  const isAudioFile = (file: File): boolean => {
     const extension = '.' + file.name.split('.').pop()?.toLowerCase();
-    const isValidExt = ALLOWED_EXTENSIONS.includes(extension);
+    return ALLOWED_EXTENSIONS.includes(extension) || file.type.indexOf('audio/') === 0;
+  };
 
-    if (!isValidExt && file.type.indexOf('audio/') !== 0) {
+  const validateFile = (file: File): boolean => {
+    if (!isAudioFile(file)) {
       setError(`Formato não suportado. Use MP3, WAV ou M4A.`);
       return false;
     }
@@ -27,6 +50,19 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, onUrlSelect, stat
     return true;
   };
 
+  // Um arquivo segue o fluxo normal; vários entram na fila (ignorando os inválidos)
+  const selectFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    if (files.length === 1) {
+      if (validateFile(files[0])) onFileSelect(files[0], language || undefined);
+      return;
+    }
+    const valid = files.filter(isAudioFile);
+    const skipped = files.length - valid.length;
+    setError(skipped > 0 ? `${skipped} arquivo(s) ignorado(s): formato não suportado.` : null);
+    if (valid.length > 0) onFilesSelect(valid, language || undefined);
+  };
+
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -38,18 +74,29 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, onUrlSelect, stat
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const file = e.dataTransfer.files[0];
-      if (validateFile(file)) onFileSelect(file);
-    }
-  }, [onFileSelect]);
+    selectFiles(e.dataTransfer.files ? Array.from(e.dataTransfer.files) : []);
+  }, [onFileSelect, onFilesSelect, language]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     e.preventDefault();
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      if (validateFile(file)) onFileSelect(file);
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    selectFiles(files);
+  };
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    const transcript = files.find(f => IMPORT_EXTENSIONS.includes('.' + f.name.split('.').pop()?.toLowerCase()));
+    if (!transcript) {
+      setError("Selecione um arquivo SRT, VTT ou JSON (opcionalmente junto com o áudio).");
+      return;
     }
+    // O arquivo que acompanha a transcrição precisa ser um áudio suportado
+    const companion = files.find(f => f !== transcript);
+    if (companion && !validateFile(companion)) return;
+    setError(null);
+    onImport(transcript, companion);
   };
 
   const extractYouTubeId = (url: string): string | null => {
@@ -85,13 +132,64 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, onUrlSelect, stat
     setError(null);
     // Envia a URL limpa ou o ID, dependendo da preferência. Aqui enviamos a URL original para o serviço processar se necessário,
     // mas o serviço de transcrição usará o contexto de busca.
-    onUrlSelect(url);
+    onUrlSelect(url, language || undefined);
   };
 
   const isProcessing = status === TranscriptionStatus.UPLOADING || status === TranscriptionStatus.PROCESSING;
 
   return (
     <div className="w-full max-w-xl mx-auto space-y-6">
+      {/* Profile & Source Language */}
+      <div className={`flex flex-wrap items-center justify-end gap-2 text-sm ${isProcessing ? 'opacity-50 pointer-events-none' : ''}`}>
+        <SlidersHorizontal size={16} className="text-slate-400" />
+        <label htmlFor="prompt-profile" className="text-slate-500 font-medium">Perfil:</label>
+        <select
+          id="prompt-profile"
+          value={profileId}
+          onChange={(e) => selectProfile(e.target.value)}
+          className="bg-white border border-slate-200 text-sm font-semibold text-slate-700 rounded-lg px-2 py-1.5 focus:outline-none focus:border-blue-400"
+        >
+          {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+        </select>
+        <button
+          type="button"
+          onClick={() => { setIsRecording(false); setIsEditingProfiles(!isEditingProfiles); }}
+          className="text-xs font-semibold text-blue-600 hover:text-blue-700 mr-3"
+        >
+          {isEditingProfiles ? 'Fechar' : 'Editar perfis'}
+        </button>
+        <Languages size={16} className="text-slate-400" />
+        <label htmlFor="source-language" className="text-slate-500 font-medium">Idioma do áudio:</label>
+        <select
+          id="source-language"
+          value={language}
+          onChange={(e) => setLanguage(e.target.value)}
+          className="bg-white border border-slate-200 text-sm font-semibold text-slate-700 rounded-lg px-2 py-1.5 focus:outline-none focus:border-blue-400"
+        >
+          <option value="">Detectar automaticamente</option>
+          {SUPPORTED_LANGUAGES.map(lang => <option key={lang.code} value={lang.code}>{lang.name}</option>)}
+        </select>
+      </div>
+
+      {isEditingProfiles ? (
+        <ProfileEditor
+          activeId={profileId}
+          onChange={(next) => {
+            setProfiles(next);
+            // O perfil ativo foi excluído: volta para o primeiro
+            if (!next.some(profile => profile.id === profileId)) selectProfile(next[0].id);
+          }}
+          onClose={() => setIsEditingProfiles(false)}
+        />
+      ) : isRecording ? (
+        /* Microphone Recording */
+        <AudioRecorder
+          language={language || undefined}
+          onComplete={(file) => { setIsRecording(false); onFileSelect(file, language || undefined); }}
+          onCancel={() => setIsRecording(false)}
+        />
+      ) : (
+      <>
       {/* Drag & Drop Area */}
       <div
         className={`relative group rounded-2xl border-2 transition-all duration-300 ease-in-out overflow-hidden
@@ -108,6 +206,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, onUrlSelect, stat
       >
         <input
           type="file"
+          multiple
           className="absolute inset-0 w-full h-full opacity-0 z-10 cursor-pointer"
           onChange={handleChange}
           accept=".mp3,.wav,.m4a"
@@ -124,12 +223,23 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, onUrlSelect, stat
           </div>
           
           <h3 className="text-lg font-bold text-slate-900 mb-1">
-            {dragActive ? 'Solte o arquivo' : 'Upload de Arquivo'}
+            {dragActive ? 'Solte os arquivos' : 'Upload de Arquivos'}
           </h3>
-          <p className="text-sm text-slate-500 mb-4">MP3, WAV, M4A (Max 25MB)</p>
+          <p className="text-sm text-slate-500 mb-4">MP3, WAV, M4A (vários arquivos entram em uma fila; áudios longos são divididos automaticamente)</p>
         </div>
       </div>
 
+      <button
+        type="button"
+        onClick={() => { setError(null); setIsRecording(true); }}
+        disabled={isProcessing}
+        className="w-full flex items-center justify-center gap-2 py-3 rounded-xl border border-slate-200 bg-white text-sm font-semibold text-slate-700 hover:border-red-300 hover:text-red-600 shadow-sm disabled:opacity-50 disabled:pointer-events-none transition-colors"
+      >
+        <Mic size={18} className="text-red-500" /> Gravar do microfone
+      </button>
+      </>
+      )}
+
       {/* URL Input Area */}
       <div className={`bg-white p-1 rounded-xl border border-slate-200 shadow-sm ${isProcessing ? 'opacity-50 pointer-events-none' : ''}`}>
         <form onSubmit={handleUrlSubmit} className="flex items-center gap-2">
@@ -154,6 +264,20 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, onUrlSelect, stat
         </form>
       </div>
 
+      {/* Import Area */}
+      <label className={`flex items-center justify-center gap-2 text-sm font-medium text-slate-500 hover:text-blue-600 cursor-pointer transition-colors ${isProcessing ? 'opacity-50 pointer-events-none' : ''}`}>
+        <FileInput size={16} />
+        <span>Já tem legendas? Importe SRT, VTT ou JSON (com o áudio, se quiser)</span>
+        <input
+          type="file"
+          multiple
+          className="hidden"
+          accept={`${IMPORT_EXTENSIONS.join(',')},.mp3,.wav,.m4a,audio/*`}
+          onChange={handleImportChange}
+          disabled={isProcessing}
+        />
+      </label>
+
       {error && (
         <div className="flex items-center gap-3 text-sm font-medium text-white bg-red-500 p-4 rounded-xl shadow-lg animate-in fade-in">
           <AlertCircle size={18} />
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { SpellCheck, ArrowLeft, Plus, Trash2, X } from 'lucide-react';
+import { GlossaryEntry, loadGlossary, saveGlossary } from '../services/glossaryService';
+
+interface GlossaryProps {
+  onClose: () => void;
+}
+
+// "Clara IA, Clarea" -> ["Clara IA", "Clarea"]
+const parseVariants = (value: string): string[] =>
+  value.split(',').map(v => v.trim()).filter(Boolean);
+
+const Glossary: React.FC<GlossaryProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<GlossaryEntry[]>(loadGlossary);
+  const [newTerm, setNewTerm] = useState('');
+  const [newVariants, setNewVariants] = useState('');
+
+  const update = (next: GlossaryEntry[]) => {
+    setEntries(next);
+    saveGlossary(next);
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const term = newTerm.trim();
+    if (!term) return;
+    const variants = parseVariants(newVariants);
+    const existing = entries.findIndex(entry => entry.term.toLowerCase() === term.toLowerCase());
+    update(existing >= 0
+      ? entries.map((entry, i) => i === existing ? { term, variants: [...new Set([...entry.variants, ...variants])] } : entry)
+      : [...entries, { term, variants }]);
+    setNewTerm('');
+    setNewVariants('');
+  };
+
+  const addVariants = (index: number, value: string) => {
+    const variants = parseVariants(value);
+    if (variants.length === 0) return;
+    update(entries.map((entry, i) => i === index ? { ...entry, variants: [...new Set([...entry.variants, ...variants])] } : entry));
+  };
+
+  const removeVariant = (index: number, variant: string) =>
+    update(entries.map((entry, i) => i === index ? { ...entry, variants: entry.variants.filter(v => v !== variant) } : entry));
+
+  const removeEntry = (index: number) => update(entries.filter((_, i) => i !== index));
+
+  const inputClass = "px-3 py-2 text-sm bg-white text-slate-800 border border-slate-200 rounded-lg focus:outline-none focus:border-blue-400 placeholder:text-slate-400";
+
+  return (
+    <div className="w-full max-w-3xl mx-auto animate-in fade-in duration-500">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+          <SpellCheck size={24} className="text-blue-600" /> Glossário
+        </h2>
+        <button onClick={onClose} className="flex items-center gap-2 text-sm font-semibold text-slate-500 hover:text-blue-600 transition-colors">
+          <ArrowLeft size={16} /> Voltar
+        </button>
+      </div>
+      <p className="text-sm text-slate-500 mb-6">
+        Os termos são enviados ao modelo como vocabulário esperado, e as grafias erradas são corrigidas automaticamente em toda transcrição nova.
+      </p>
+
+      <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-2 mb-6">
+        <input value={newTerm} onChange={(e) => setNewTerm(e.target.value)} placeholder="Grafia correta (ex: ClariaAI)" className={`${inputClass} sm:w-56`} />
+        <input value={newVariants} onChange={(e) => setNewVariants(e.target.value)} placeholder="Erros comuns, separados por vírgula (opcional)" className={`${inputClass} flex-grow`} />
+        <button type="submit" disabled={!newTerm.trim()} className="flex items-center justify-center gap-1 px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50">
+          <Plus size={16} /> Adicionar
+        </button>
+      </form>
+
+      {entries.length === 0 ? (
+        <p className="text-center text-slate-400 py-16">Nenhum termo no glossário ainda.</p>
+      ) : (
+        <ul className="space-y-3">
+          {entries.map((entry, index) => (
+            <li key={entry.term} className="bg-white border border-slate-100 rounded-xl shadow-sm p-4 group">
+              <div className="flex items-center justify-between gap-4">
+                <h3 className="font-semibold text-slate-800">{entry.term}</h3>
+                <button onClick={() => removeEntry(index)} title="Excluir termo" className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg opacity-60 group-hover:opacity-100">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center gap-1.5 mt-2">
+                {entry.variants.map(variant => (
+                  <span key={variant} className="inline-flex items-center gap-1 text-xs bg-red-50 text-red-700 px-2 py-0.5 rounded-full line-through decoration-red-300">
+                    {variant}
+                    <button onClick={() => removeVariant(index, variant)} title="Remover" className="no-underline hover:text-red-900"><X size={12} /></button>
+                  </span>
+                ))}
+                <input
+                  placeholder={entry.variants.length > 0 ? "+ erro comum" : "Só vocabulário. + erro comum"}
+                  onKeyDown={(e) => {
+                    if (e.key !== 'Enter') return;
+                    e.preventDefault();
+                    addVariants(index, e.currentTarget.value);
+                    e.currentTarget.value = '';
+                  }}
+                  className="text-xs px-2 py-0.5 border-b border-transparent hover:border-slate-200 focus:border-blue-400 focus:outline-none bg-transparent placeholder:text-slate-400"
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default Glossary;
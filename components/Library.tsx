@@ -0,0 +1,314 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, Trash2, PenLine, Check, X, FolderOpen, Loader2, Library as LibraryIcon, Youtube, FileAudio, ArrowLeft, MessageSquare, Send, PlayCircle, Filter } from 'lucide-react';
+import { LibraryEntry } from '../types';
+import { listTranscriptions, renameTranscription, deleteTranscription } from '../services/libraryService';
+import { searchLibrary, getLibraryFacets, selectSources, buildLibraryContext, LibraryFilters, LibrarySource } from '../services/librarySearch';
+import { splitCitations } from '../services/chatCitations';
+import { sendChatMessage } from '../services/transcriptionService';
+import { isAbortError } from '../services/cancellation';
+import { getErrorMessage } from '../services/errors';
+
+interface LibraryProps {
+  // `time`: abre já posicionado no trecho (resultado de busca ou citação)
+  onOpen: (entry: LibraryEntry, time?: number) => void;
+  onClose: () => void;
+}
+
+type LibraryMode = 'search' | 'ask';
+
+const Library: React.FC<LibraryProps> = ({ onOpen, onClose }) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [mode, setMode] = useState<LibraryMode>('search');
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filter States (datas no formato do <input type="date">)
+  const [category, setCategory] = useState('');
+  const [speaker, setSpeaker] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  // Rename States
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  // Q&A States
+  const [question, setQuestion] = useState('');
+  const [answer, setAnswer] = useState<string | null>(null);
+  const [answerSources, setAnswerSources] = useState<LibrarySource[]>([]);
+  const [isAsking, setIsAsking] = useState(false);
+  const askController = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    listTranscriptions()
+      .then(setEntries)
+      .catch(err => {
+        console.error(err);
+        setError("Não foi possível carregar a biblioteca local.");
+      })
+      .finally(() => setIsLoading(false));
+    return () => askController.current?.abort();
+  }, []);
+
+  // Debounce para não refazer a busca fuzzy a cada tecla
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query), 250);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const facets = useMemo(() => getLibraryFacets(entries), [entries]);
+  const filters = useMemo<LibraryFilters>(() => ({
+    category: category || undefined,
+    speaker: speaker || undefined,
+    from: fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : undefined
+  }), [category, speaker, fromDate, toDate]);
+  const hasFilters = !!(category || speaker || fromDate || toDate);
+  const hits = useMemo(() => searchLibrary(entries, debouncedQuery, filters), [entries, debouncedQuery, filters]);
+
+  const clearFilters = () => {
+    setCategory('');
+    setSpeaker('');
+    setFromDate('');
+    setToDate('');
+  };
+
+  const startRename = (entry: LibraryEntry) => {
+    setEditingId(entry.id);
+    setEditingTitle(entry.title);
+  };
+
+  const confirmRename = async () => {
+    if (!editingId) return;
+    try {
+      const updated = await renameTranscription(editingId, editingTitle);
+      if (updated) setEntries(prev => prev.map(e => e.id === updated.id ? updated : e));
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError("Não foi possível renomear a transcrição.");
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = async (entry: LibraryEntry) => {
+    if (!window.confirm(`Excluir "${entry.title}" da biblioteca?`)) return;
+    try {
+      await deleteTranscription(entry.id);
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(`Não foi possível excluir "${entry.title}".`);
+    }
+  };
+
+  // Pergunta respondida com os trechos mais relevantes de várias transcrições
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!question.trim() || isAsking) return;
+
+    const sources = selectSources(entries, question, filters);
+    setAnswerSources(sources);
+    if (sources.length === 0) {
+      setAnswer("Nenhum trecho da biblioteca parece tratar deste assunto. Tente outras palavras ou remova os filtros.");
+      return;
+    }
+
+    askController.current?.abort();
+    const controller = new AbortController();
+    askController.current = controller;
+    setIsAsking(true);
+    setAnswer('');
+    try {
+      setAnswer(await sendChatMessage([], buildLibraryContext(sources), question, { signal: controller.signal, onChunk: setAnswer }));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setAnswer(`Erro ao processar a pergunta: ${getErrorMessage(err)}`);
+    } finally {
+      if (askController.current === controller) setIsAsking(false);
+    }
+  };
+
+  const renderAnswer = (text: string) => splitCitations(text).map((part, i) => {
+    if (part.type === 'text') return <React.Fragment key={i}>{part.text}</React.Fragment>;
+    const source = part.source ? answerSources[part.source - 1] : answerSources.length === 1 ? answerSources[0] : undefined;
+    if (!source) return <React.Fragment key={i}>[{part.text}]</React.Fragment>;
+    return (
+      <button key={i} onClick={() => onOpen(source.entry, part.seconds)} title={`Abrir "${source.entry.title}" neste trecho`}
+        className="inline-flex items-center gap-0.5 mx-0.5 px-1.5 py-0.5 align-baseline rounded bg-blue-50 text-blue-700 font-mono text-xs font-semibold hover:bg-blue-100 transition-colors">
+        <PlayCircle size={11} /> {part.text}
+      </button>
+    );
+  });
+
+  const selectClass = "px-3 py-2 text-sm bg-white text-slate-700 border border-slate-200 rounded-lg focus:outline-none focus:border-blue-400";
+  const modeClass = (value: LibraryMode) =>
+    `flex items-center gap-2 px-4 py-2 rounded-full text-sm font-semibold transition-colors ${mode === value ? 'bg-slate-900 text-white' : 'text-slate-500 hover:bg-slate-100'}`;
+
+  return (
+    <div className="w-full max-w-3xl mx-auto animate-in fade-in duration-500">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+          <LibraryIcon size={24} className="text-blue-600" /> Minha Biblioteca
+        </h2>
+        <button onClick={onClose} className="flex items-center gap-2 text-sm font-semibold text-slate-500 hover:text-blue-600 transition-colors">
+          <ArrowLeft size={16} /> Voltar
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 mb-4">
+        <button onClick={() => setMode('search')} className={modeClass('search')}><Search size={16} /> Buscar</button>
+        <button onClick={() => setMode('ask')} className={modeClass('ask')}><MessageSquare size={16} /> Perguntar à biblioteca</button>
+      </div>
+
+      {mode === 'search' ? (
+        <div className="relative mb-3">
+          <input
+            type="text"
+            placeholder="Pesquisar em todas as transcrições (ignora acentos e pequenos erros)..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="w-full pl-10 pr-4 py-3 text-sm bg-white text-slate-800 border border-slate-200 rounded-xl focus:outline-none focus:border-blue-400 focus:ring-1 focus:ring-blue-200 placeholder:text-slate-400"
+          />
+          <Search size={16} className="absolute left-3.5 top-1/2 -translate-y-1/2 text-slate-400" />
+        </div>
+      ) : (
+        <form onSubmit={handleAsk} className="flex gap-2 mb-3">
+          <input
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            placeholder="Ex: O que foi decidido sobre o prazo do projeto?"
+            className="flex-grow px-4 py-3 text-sm bg-white text-slate-800 border border-slate-200 rounded-xl focus:outline-none focus:border-blue-400 focus:ring-1 focus:ring-blue-200 placeholder:text-slate-400"
+            disabled={isAsking}
+          />
+          <button type="submit" disabled={!question.trim() || isAsking} className="px-4 bg-blue-600 text-white rounded-xl hover:bg-blue-700 disabled:opacity-50">
+            {isAsking ? <Loader2 size={18} className="animate-spin" /> : <Send size={18} />}
+          </button>
+        </form>
+      )}
+
+      {/* Filtros valem para a busca e para as perguntas */}
+      <div className="flex flex-wrap items-center gap-2 mb-6 text-sm">
+        <Filter size={14} className="text-slate-400" />
+        <select value={category} onChange={(e) => setCategory(e.target.value)} className={selectClass}>
+          <option value="">Todas as categorias</option>
+          {facets.categories.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+        {facets.speakers.length > 0 && (
+          <select value={speaker} onChange={(e) => setSpeaker(e.target.value)} className={selectClass}>
+            <option value="">Todos os locutores</option>
+            {facets.speakers.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+        )}
+        <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} title="A partir de" className={selectClass} />
+        <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} title="Até" className={selectClass} />
+        {hasFilters && (
+          <button onClick={clearFilters} className="flex items-center gap-1 text-xs font-semibold text-slate-500 hover:text-red-600">
+            <X size={14} /> Limpar filtros
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600 bg-red-50 border border-red-100 rounded-xl p-4 mb-4">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex justify-center py-16 text-slate-400"><Loader2 size={28} className="animate-spin" /></div>
+      ) : mode === 'ask' ? (
+        answer === null ? (
+          <p className="text-center text-slate-400 py-16">
+            A resposta usa os trechos mais relevantes de todas as transcrições e cita a origem de cada informação.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="bg-white border border-slate-200 rounded-2xl p-5 text-sm text-slate-700 leading-relaxed whitespace-pre-wrap shadow-sm">
+              {answer ? renderAnswer(answer) : <Loader2 size={16} className="animate-spin text-slate-400" />}
+            </div>
+            {answerSources.length > 0 && (
+              <div>
+                <h3 className="text-xs font-bold uppercase tracking-wide text-slate-400 mb-2">Fontes consultadas</h3>
+                <ul className="space-y-1">
+                  {answerSources.map((source, i) => (
+                    <li key={source.entry.id}>
+                      <button onClick={() => onOpen(source.entry)} className="text-sm text-left text-slate-600 hover:text-blue-600">
+                        <span className="font-mono text-xs font-semibold text-blue-700 mr-2">T{i + 1}</span>
+                        {source.entry.title} <span className="text-xs text-slate-400">· {formatDate(source.entry.createdAt)}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )
+      ) : hits.length === 0 ? (
+        <p className="text-center text-slate-400 py-16">
+          {debouncedQuery || hasFilters ? "Nenhuma transcrição encontrada." : "Nenhuma transcrição salva ainda."}
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {hits.map(({ entry, segments }) => (
+            <li key={entry.id} className="bg-white border border-slate-100 rounded-xl shadow-sm p-4 group hover:border-blue-200 transition-all">
+              <div className="flex items-center gap-4">
+                <div className="w-10 h-10 rounded-lg bg-slate-50 flex items-center justify-center text-slate-400 flex-shrink-0">
+                  {entry.sourceUrl ? <Youtube size={20} className="text-red-500" /> : <FileAudio size={20} />}
+                </div>
+                <div className="flex-grow min-w-0">
+                  {editingId === entry.id ? (
+                    <form onSubmit={(e) => { e.preventDefault(); confirmRename(); }} className="flex items-center gap-2">
+                      <input
+                        autoFocus
+                        value={editingTitle}
+                        onChange={(e) => setEditingTitle(e.target.value)}
+                        className="flex-grow px-2 py-1 text-sm border border-blue-300 rounded-lg focus:outline-none"
+                      />
+                      <button type="submit" className="p-1.5 text-green-600 hover:bg-green-50 rounded-lg"><Check size={16} /></button>
+                      <button type="button" onClick={() => setEditingId(null)} className="p-1.5 text-slate-400 hover:bg-slate-100 rounded-lg"><X size={16} /></button>
+                    </form>
+                  ) : (
+                    <button onClick={() => onOpen(entry)} className="text-left w-full">
+                      <h3 className="font-semibold text-slate-800 truncate group-hover:text-blue-600">{entry.title}</h3>
+                      <p className="text-xs text-slate-400 mt-0.5">
+                        {entry.response.category || "Geral"} · {formatDate(entry.createdAt)} · {entry.response.segments.length} segmentos
+                      </p>
+                    </button>
+                  )}
+                </div>
+                {editingId !== entry.id && (
+                  <div className="flex items-center gap-1 opacity-60 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => onOpen(entry)} title="Abrir" className="p-2 text-slate-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg"><FolderOpen size={16} /></button>
+                    <button onClick={() => startRename(entry)} title="Renomear" className="p-2 text-slate-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg"><PenLine size={16} /></button>
+                    <button onClick={() => handleDelete(entry)} title="Excluir" className="p-2 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-lg"><Trash2 size={16} /></button>
+                  </div>
+                )}
+              </div>
+              {segments.length > 0 && (
+                <ul className="mt-3 ml-14 space-y-1 border-l-2 border-slate-100 pl-3">
+                  {segments.map(({ index, segment }) => (
+                    <li key={index}>
+                      <button onClick={() => onOpen(entry, segment.start)} className="text-left text-sm text-slate-600 hover:text-blue-600 line-clamp-2">
+                        <span className="font-mono text-xs font-semibold text-blue-600 mr-2">{formatTime(segment.start)}</span>
+                        {segment.speaker && <span className="font-semibold mr-1">{segment.speaker}:</span>}
+                        {segment.text}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const formatTime = (seconds: number): string =>
+  `${Math.floor(seconds / 60).toString().padStart(2, '0')}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+export default Library;
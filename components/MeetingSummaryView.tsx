@@ -0,0 +1,96 @@
+import React from 'react';
+import { CheckSquare, Square, Gavel, HelpCircle, Hash, PlayCircle, User, CalendarClock, Download, RefreshCw } from 'lucide-react';
+import { MeetingSummary, SummaryItem } from '../types';
+
+interface MeetingSummaryViewProps {
+  summary: MeetingSummary;
+  onSeek: (time: number) => void;
+  onToggleAction: (index: number) => void;
+  onExportTasks: () => void;
+  onRegenerate: () => void;
+}
+
+const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Botão com o horário em que o item foi dito; leva o player até lá
+const SeekButton: React.FC<{ item: SummaryItem, onSeek: (time: number) => void }> = ({ item, onSeek }) =>
+  item.start === undefined ? null : (
+    <button onClick={() => onSeek(item.start!)} title="Ouvir este trecho"
+      className="shrink-0 inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded bg-blue-50 text-blue-700 font-mono text-xs font-semibold hover:bg-blue-100 transition-colors">
+      <PlayCircle size={11} /> {formatTime(item.start)}
+    </button>
+  );
+
+const Section: React.FC<{ title: string, icon: React.ReactNode, items: SummaryItem[], empty: string, onSeek: (time: number) => void }> = ({ title, icon, items, empty, onSeek }) => (
+  <section>
+    <h4 className="flex items-center gap-2 text-sm font-bold text-slate-700 uppercase tracking-wide mb-2">{icon} {title}</h4>
+    {items.length === 0 ? (
+      <p className="text-sm text-slate-400">{empty}</p>
+    ) : (
+      <ul className="space-y-1.5">
+        {items.map((item, i) => (
+          <li key={i} className="flex items-start gap-2 text-slate-700 leading-relaxed">
+            <SeekButton item={item} onSeek={onSeek} />
+            <span>{item.text}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </section>
+);
+
+const MeetingSummaryView: React.FC<MeetingSummaryViewProps> = ({ summary, onSeek, onToggleAction, onExportTasks, onRegenerate }) => (
+  <div className="w-full flex-grow overflow-y-auto space-y-6 mb-4">
+    {summary.overview && <p className="text-slate-800 leading-relaxed text-lg">{summary.overview}</p>}
+
+    <section>
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <h4 className="flex items-center gap-2 text-sm font-bold text-slate-700 uppercase tracking-wide">
+          <CheckSquare size={16} className="text-emerald-600" /> Encaminhamentos
+        </h4>
+        <button onClick={onExportTasks} disabled={summary.actionItems.length === 0}
+          className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-semibold text-slate-600 border border-slate-200 rounded-lg hover:border-blue-300 hover:text-blue-600 disabled:opacity-50 disabled:pointer-events-none">
+          <Download size={14} /> Exportar tarefas
+        </button>
+      </div>
+      {summary.actionItems.length === 0 ? (
+        <p className="text-sm text-slate-400">Nenhuma tarefa combinada.</p>
+      ) : (
+        <ul className="space-y-2">
+          {summary.actionItems.map((item, i) => (
+            <li key={i} className="flex items-start gap-2 p-3 rounded-xl border border-slate-100 bg-slate-50/50">
+              <button onClick={() => onToggleAction(i)} title={item.done ? "Marcar como pendente" : "Marcar como concluída"}
+                className={`mt-0.5 shrink-0 ${item.done ? 'text-emerald-600' : 'text-slate-400 hover:text-emerald-600'}`}>
+                {item.done ? <CheckSquare size={18} /> : <Square size={18} />}
+              </button>
+              <div className="flex-grow min-w-0">
+                <p className={`leading-relaxed ${item.done ? 'line-through text-slate-400' : 'text-slate-800'}`}>{item.text}</p>
+                <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-slate-500">
+                  {item.owner && <span className="flex items-center gap-1"><User size={12} /> {item.owner}</span>}
+                  {item.dueDate && <span className="flex items-center gap-1"><CalendarClock size={12} /> {item.dueDate}</span>}
+                  <SeekButton item={item} onSeek={onSeek} />
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+
+    <Section title="Decisões" icon={<Gavel size={16} className="text-blue-600" />} items={summary.decisions} empty="Nenhuma decisão registrada." onSeek={onSeek} />
+    <Section title="Em aberto" icon={<HelpCircle size={16} className="text-amber-500" />} items={summary.questions} empty="Nenhuma pendência." onSeek={onSeek} />
+    <Section title="Tópicos" icon={<Hash size={16} className="text-slate-400" />} items={summary.topics} empty="Nenhum tópico identificado." onSeek={onSeek} />
+
+    <div className="flex justify-end pt-4 border-t border-slate-100">
+      <button onClick={onRegenerate} className="flex items-center gap-2 text-sm font-semibold text-slate-500 hover:text-blue-600 transition-colors">
+        <RefreshCw size={14} /> Gerar novamente
+      </button>
+    </div>
+  </div>
+);
+
+export default MeetingSummaryView;
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Clock, XCircle, CheckCircle2, Circle, Timer } from 'lucide-react';
+import { ProgressEvent, ProgressStage } from '../types';
+import { JobKind } from '../services/jobTimingService';
+
+interface ProcessingStatusProps {
+  source: JobKind;
+  event: ProgressEvent | null;
+  startedAt: number;        // Date.now() do início do job
+  estimatedSeconds: number; // Estimativa inicial, calibrada pelo histórico
+  onCancel: () => void;
+}
+
+const STAGE_LABELS: Record<ProgressStage, string> = {
+  reading: 'Lendo o arquivo',
+  uploading: 'Enviando o áudio',
+  transcribing: 'Transcrevendo',
+  metadata: 'Gerando título e descrição',
+  aligning: 'Ajustando os tempos ao áudio',
+  searching: 'Buscando a transcrição do vídeo',
+  formatting: 'Organizando os segmentos'
+};
+
+const STAGES_BY_SOURCE: Record<JobKind, ProgressStage[]> = {
+  file: ['reading', 'uploading', 'transcribing', 'metadata', 'aligning'],
+  url: ['searching', 'formatting']
+};
+
+// A partir desta fração, o tempo restante vem do ritmo real do job
+const MIN_FRACTION_FOR_PACE = 0.15;
+
+const ProcessingStatus: React.FC<ProcessingStatusProps> = ({ source, event, startedAt, estimatedSeconds, onCancel }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const elapsed = Math.max(0, (now - startedAt) / 1000);
+  const fraction = event?.fraction ?? 0;
+  const remaining = fraction >= MIN_FRACTION_FOR_PACE
+    ? Math.ceil(elapsed * (1 - fraction) / fraction)
+    : Math.ceil(estimatedSeconds - elapsed);
+
+  const stages = STAGES_BY_SOURCE[source];
+  const currentIndex = event ? stages.indexOf(event.stage) : -1;
+
+  const describeStage = (stage: ProgressStage): string => {
+    const label = STAGE_LABELS[stage];
+    if (event?.stage !== stage || !event.total) return label;
+    if (stage === 'transcribing') return event.total > 1 ? `${label} (trecho ${event.current} de ${event.total})` : label;
+    return event.current && event.current > 1 ? `${label} (tentativa ${event.current} de ${event.total})` : label;
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center py-16 animate-in fade-in duration-500 max-w-lg mx-auto">
+      <div className="w-full bg-slate-100 rounded-full h-4 mb-6 overflow-hidden relative">
+         <div
+           className="h-full bg-gradient-to-r from-blue-500 to-blue-600 transition-all duration-1000 ease-linear rounded-full"
+           style={{ width: `${Math.round(fraction * 100)}%` }}
+         ></div>
+         <div className="absolute inset-0 bg-white/20 animate-[shimmer_2s_infinite]"></div>
+      </div>
+
+      <div className="text-center space-y-3 w-full">
+         <div className="flex items-center justify-center gap-2 text-blue-700 font-semibold text-lg">
+            <Loader2 size={24} className="animate-spin" />
+            <span>{source === 'url' ? 'Processando Vídeo...' : 'Processando Áudio...'}</span>
+         </div>
+
+         <div className="flex flex-wrap items-center justify-center gap-2 text-slate-500 text-sm font-medium">
+            <span className="flex items-center gap-2 bg-slate-50 py-1.5 px-4 rounded-full border border-slate-200">
+              <Timer size={14} /> {formatDuration(elapsed)} decorridos
+            </span>
+            <span className="flex items-center gap-2 bg-slate-50 py-1.5 px-4 rounded-full border border-slate-200">
+              <Clock size={14} />
+              {remaining > 0 ? `Faltam ~${formatDuration(remaining)}` : 'Calculando tempo restante...'}
+            </span>
+         </div>
+
+         {/* Stage List */}
+         <ol className="text-left bg-white border border-slate-100 rounded-xl p-4 space-y-2 mt-4 shadow-sm">
+           {stages.map((stage, i) => {
+             const isDone = i < currentIndex || (i === currentIndex && fraction >= 1);
+             const isActive = i === currentIndex && !isDone;
+             return (
+               <li key={stage} className={`flex items-center gap-2 text-sm ${isActive ? 'text-blue-700 font-semibold' : isDone ? 'text-slate-600' : 'text-slate-400'}`}>
+                 {isDone
+                   ? <CheckCircle2 size={16} className="text-green-500 flex-shrink-0" />
+                   : isActive
+                     ? <Loader2 size={16} className="animate-spin flex-shrink-0" />
+                     : <Circle size={16} className="flex-shrink-0" />}
+                 {describeStage(stage)}
+               </li>
+             );
+           })}
+         </ol>
+
+         <button onClick={onCancel} className="inline-flex items-center gap-2 mt-2 text-sm font-semibold text-slate-500 hover:text-red-600 bg-white hover:bg-red-50 border border-slate-200 hover:border-red-200 px-4 py-1.5 rounded-full transition-colors">
+           <XCircle size={16} /> Cancelar
+         </button>
+      </div>
+    </div>
+  );
+};
+
+const formatDuration = (seconds: number): string => {
+  const total = Math.round(seconds);
+  if (total < 60) return `${total}s`;
+  return `${Math.floor(total / 60)}min ${(total % 60).toString().padStart(2, '0')}s`;
+};
+
+export default ProcessingStatus;
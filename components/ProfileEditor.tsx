@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, Plus, Copy, Trash2, Download, Upload, Check } from 'lucide-react';
+import { PromptProfile } from '../types';
+import { BUILT_IN_PROFILES, createProfile, exportProfiles, importProfiles, loadProfiles, saveProfiles } from '../services/profileService';
+import { downloadFile } from '../services/exportService';
+
+interface ProfileEditorProps {
+  activeId: string;
+  onChange: (profiles: PromptProfile[]) => void;
+  onClose: () => void;
+}
+
+// "termo A, termo B" ou um por linha -> ["termo A", "termo B"]
+const parseList = (value: string): string[] =>
+  value.split(/[,\n]/).map(item => item.trim()).filter(Boolean);
+
+const ProfileEditor: React.FC<ProfileEditorProps> = ({ activeId, onChange, onClose }) => {
+  const [profiles, setProfiles] = useState<PromptProfile[]>(loadProfiles);
+  const [editingId, setEditingId] = useState(activeId);
+  const [error, setError] = useState<string | null>(null);
+
+  const editing = profiles.find(profile => profile.id === editingId) ?? profiles[0];
+
+  const update = (next: PromptProfile[], nextId = editing.id) => {
+    setProfiles(next);
+    setEditingId(nextId);
+    saveProfiles(next);
+    onChange(next);
+  };
+
+  const patch = (changes: Partial<PromptProfile>) =>
+    update(profiles.map(profile => profile.id === editing.id ? { ...profile, ...changes } : profile));
+
+  const handleNew = () => {
+    const profile = createProfile(BUILT_IN_PROFILES[0], 'Novo perfil');
+    update([...profiles, profile], profile.id);
+  };
+
+  const handleDuplicate = () => {
+    const profile = createProfile(editing);
+    update([...profiles, profile], profile.id);
+  };
+
+  const handleDelete = () => {
+    if (profiles.length <= 1) return;
+    const next = profiles.filter(profile => profile.id !== editing.id);
+    update(next, next[0].id);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const next = importProfiles(await file.text(), profiles);
+      setError(null);
+      update(next, next[next.length - 1].id);
+    } catch (err: any) {
+      setError(err instanceof SyntaxError ? "Arquivo JSON inválido." : err.message);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 text-sm bg-white text-slate-800 border border-slate-200 rounded-lg focus:outline-none focus:border-blue-400 placeholder:text-slate-400";
+  const labelClass = "block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1";
+  const buttonClass = "flex items-center gap-1 px-2.5 py-1.5 text-xs font-semibold text-slate-600 border border-slate-200 rounded-lg hover:border-blue-300 hover:text-blue-600 disabled:opacity-50 disabled:pointer-events-none";
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-5 space-y-4 animate-in fade-in">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-bold text-slate-900 flex items-center gap-2">
+          <SlidersHorizontal size={18} className="text-blue-600" /> Perfis de transcrição
+        </h3>
+        <button onClick={onClose} className="flex items-center gap-1 text-sm font-semibold text-blue-600 hover:text-blue-700">
+          <Check size={16} /> Concluir
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={editing.id}
+          onChange={(e) => setEditingId(e.target.value)}
+          className="flex-grow bg-white border border-slate-200 text-sm font-semibold text-slate-700 rounded-lg px-2 py-1.5 focus:outline-none focus:border-blue-400"
+        >
+          {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+        </select>
+        <button onClick={handleNew} className={buttonClass}><Plus size={14} /> Novo</button>
+        <button onClick={handleDuplicate} className={buttonClass}><Copy size={14} /> Duplicar</button>
+        <button onClick={handleDelete} disabled={profiles.length <= 1} title="Excluir perfil" className={`${buttonClass} hover:!text-red-600 hover:!border-red-300`}>
+          <Trash2 size={14} />
+        </button>
+      </div>
+
+      <div>
+        <label className={labelClass}>Nome</label>
+        <input value={editing.name} onChange={(e) => patch({ name: e.target.value })} className={inputClass} />
+      </div>
+
+      <div>
+        <label className={labelClass}>Instruções de transcrição</label>
+        <textarea
+          value={editing.transcriptionPrompt}
+          onChange={(e) => patch({ transcriptionPrompt: e.target.value })}
+          rows={4}
+          className={`${inputClass} resize-y`}
+        />
+        <p className="text-xs text-slate-400 mt-1">As regras de formato (segmentos, locutores, tempos) são adicionadas automaticamente.</p>
+      </div>
+
+      <div>
+        <label className={labelClass}>Vocabulário esperado</label>
+        <textarea
+          key={`vocabulary-${editing.id}`}
+          defaultValue={editing.vocabulary.join(', ')}
+          onBlur={(e) => patch({ vocabulary: parseList(e.target.value) })}
+          rows={2}
+          placeholder="Nomes, siglas e termos técnicos, separados por vírgula"
+          className={`${inputClass} resize-y`}
+        />
+      </div>
+
+      <div>
+        <label className={labelClass}>Modelo de resumo</label>
+        <textarea
+          value={editing.summaryTemplate}
+          onChange={(e) => patch({ summaryTemplate: e.target.value })}
+          rows={3}
+          className={`${inputClass} resize-y`}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass}>Categorias</label>
+          <input
+            key={`categories-${editing.id}`}
+            defaultValue={editing.categories.join(', ')}
+            onBlur={(e) => patch({ categories: parseList(e.target.value) })}
+            placeholder="Livre (o modelo escolhe)"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Modelo do Gemini</label>
+          <input
+            value={editing.model ?? ''}
+            onChange={(e) => patch({ model: e.target.value || undefined })}
+            placeholder="Padrão do app"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <label className="flex items-start gap-2 text-sm text-slate-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={!!editing.wordTimings}
+          onChange={(e) => patch({ wordTimings: e.target.checked || undefined })}
+          className="mt-0.5 accent-blue-600"
+        />
+        <span>
+          Tempos por palavra
+          <span className="block text-xs text-slate-400">Destaca cada palavra durante a reprodução, marca trechos incertos e gera legendas mais justas. A transcrição fica mais lenta.</span>
+        </span>
+      </label>
+
+      <div className="flex items-center justify-end gap-2 pt-2 border-t border-slate-100">
+        <label className={`${buttonClass} cursor-pointer`}>
+          <Upload size={14} /> Importar
+          <input type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+        </label>
+        <button
+          onClick={() => downloadFile(exportProfiles(profiles), 'application/json', 'perfis-claria.json')}
+          className={buttonClass}
+        >
+          <Download size={14} /> Exportar
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default ProfileEditor;
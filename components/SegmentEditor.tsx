@@ -0,0 +1,68 @@
+import React, { useRef, useState } from 'react';
+import { Check, X, Scissors, Merge, Minus, Plus } from 'lucide-react';
+import { TranscriptionSegment } from '../types';
+
+interface SegmentEditorProps {
+  segment: TranscriptionSegment;
+  hasNext: boolean;
+  onSave: (text: string) => void;
+  onSplit: (text: string, charIndex: number) => void;
+  onMerge: (text: string) => void;
+  onNudge: (edge: 'start' | 'end', delta: number) => void;
+  onCancel: () => void;
+}
+
+// Passo dos botões de ajuste fino de tempo (segundos)
+const NUDGE_STEP = 0.1;
+
+const SegmentEditor: React.FC<SegmentEditorProps> = ({ segment, hasNext, onSave, onSplit, onMerge, onNudge, onCancel }) => {
+  const [draft, setDraft] = useState(segment.text);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); onSave(draft); }
+    if (e.key === 'Escape') onCancel();
+  };
+
+  const handleSplit = () => {
+    const caret = textareaRef.current?.selectionStart ?? draft.length;
+    onSplit(draft, caret);
+  };
+
+  const renderNudge = (edge: 'start' | 'end', label: string) => (
+    <div className="flex items-center gap-1 text-xs font-mono text-slate-600">
+      <span className="font-sans font-semibold text-slate-400">{label}</span>
+      <button onClick={() => onNudge(edge, -NUDGE_STEP)} title={`-${NUDGE_STEP}s`} className="p-1 rounded hover:bg-slate-100"><Minus size={12} /></button>
+      <span className="w-16 text-center">{segment[edge].toFixed(1)}s</span>
+      <button onClick={() => onNudge(edge, NUDGE_STEP)} title={`+${NUDGE_STEP}s`} className="p-1 rounded hover:bg-slate-100"><Plus size={12} /></button>
+    </div>
+  );
+
+  return (
+    <div onClick={(e) => e.stopPropagation()} className="space-y-3">
+      <textarea
+        ref={textareaRef}
+        autoFocus
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        rows={3}
+        className="w-full text-lg leading-relaxed text-slate-800 bg-white border border-blue-200 rounded-lg p-2 resize-none focus:outline-none focus:ring-1 focus:ring-blue-300"
+      />
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-3">
+          {renderNudge('start', 'Início')}
+          {renderNudge('end', 'Fim')}
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={handleSplit} title="Dividir na posição do cursor" className="p-2 rounded-lg text-slate-500 hover:text-blue-600 hover:bg-blue-50"><Scissors size={16} /></button>
+          <button onClick={() => onMerge(draft)} disabled={!hasNext} title="Juntar com o próximo" className="p-2 rounded-lg text-slate-500 hover:text-blue-600 hover:bg-blue-50 disabled:opacity-30"><Merge size={16} /></button>
+          <button onClick={onCancel} title="Cancelar (Esc)" className="p-2 rounded-lg text-slate-500 hover:bg-slate-100"><X size={16} /></button>
+          <button onClick={() => onSave(draft)} title="Salvar (Enter)" className="p-2 rounded-lg text-white bg-blue-600 hover:bg-blue-700"><Check size={16} /></button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SegmentEditor;
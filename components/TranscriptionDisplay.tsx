@@ -1,11 +1,32 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { 
   Copy, Check, FileText, RefreshCw, PenLine, Sparkles, Languages, ListChecks, Loader2, 
   PlayCircle, Gauge, Play, Pause, Search, Download, ChevronDown, ChevronUp, Flag, Tag, X,
-  MessageSquare, Send, Bot, User, Info
+  MessageSquare, Send, Bot, User, Info, Users, Undo2, Redo2, ArrowRight, FileAudio, AlertTriangle, Replace, ReplaceAll, BookPlus, ListTree, AudioWaveform, Magnet
 } from 'lucide-react';
-import { generateSummary, translateText, refineText, sendChatMessage } from '../services/transcriptionService';
-import { TranscriptionSegment, ChatMessage, Metadata } from '../types';
+import SegmentEditor from './SegmentEditor';
+import MeetingSummaryView from './MeetingSummaryView';
+import WaveformTimeline from './WaveformTimeline';
+import { generateSummary, generateMeetingSummary, generateChapters, translateSegments, refineText, sendChatMessage } from '../services/transcriptionService';
+import { isAbortError } from '../services/cancellation';
+import { buildChatContext, splitCitations } from '../services/chatCitations';
+import { findChapterAt } from '../services/chapters';
+import { loadWaveform } from '../services/waveform';
+import { realignSegments } from '../services/realignment';
+import { findWordAt, isLowConfidence } from '../services/wordTimings';
+import { compileSearch, countMatches, splitByMatches } from '../services/textSearch';
+import { getErrorMessage } from '../services/errors';
+import { SUPPORTED_LANGUAGES, getLanguageName } from '../services/languages';
+import {
+  formatSpeakerTranscript, buildSubtitleCues, alignTranslation, toSrt, toVtt, toCsv, toMarkdown, toDocx, toPdf, canExportPdf, toTaskList, toAppJson,
+  toYouTubeChapters, toVttChapters,
+  buildFileName, downloadFile, SubtitleMode, ExportDocument
+} from '../services/exportService';
+import { deriveText, updateSegmentText, splitSegment, mergeWithNext, nudgeSegment, setSegmentEdge, replaceInSegments } from '../services/segmentEditor';
+import { addCorrection } from '../services/glossaryService';
+import { useUndoableState } from '../hooks/useUndoableState';
+import { useWaveform } from '../hooks/useWaveform';
+import { TranscriptionSegment, Chapter, ChatMessage, MeetingSummary, Metadata, Note, TranscriptionWorkspace, TranslationCache } from '../types';
 
 interface TranscriptionDisplayProps {
   transcription: string;
@@ -13,47 +34,78 @@ interface TranscriptionDisplayProps {
   audioFile: File | null;
   onReset: () => void;
   category?: string;
+  language?: string;
   metadata?: Metadata;
+  // Estado salvo na biblioteca (notas, resumo, tradução, chat)
+  initialWorkspace?: Partial<TranscriptionWorkspace>;
+  onWorkspaceChange?: (workspace: TranscriptionWorkspace) => void;
+  onAttachAudio?: (file: File) => void;
+  initialTime?: number; // Abre posicionado neste tempo (ex: citação da busca na biblioteca)
+  profileId?: string; // Perfil usado na transcrição (modelo de resumo)
 }
 
 type TabType = 'transcription' | 'summary' | 'translation' | 'synced' | 'chat';
-type ExportFormat = 'txt' | 'json' | 'srt';
-
-interface Note {
-  timestamp: number;
-  text: string;
-}
+// Resumo livre (modelo do perfil) ou ata estruturada de reunião
+type SummaryMode = 'text' | 'meeting';
+type ExportFormat = 'txt' | 'json' | 'srt' | 'vtt' | 'md' | 'csv' | 'docx' | 'pdf';
 
 const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({ 
   transcription: initialTranscription, 
-  segments,
+  segments: initialSegments,
   audioFile,
   onReset,
   category = "Geral",
-  metadata
+  language,
+  metadata,
+  initialWorkspace,
+  onWorkspaceChange,
+  onAttachAudio,
+  initialTime,
+  profileId
 }) => {
   const [activeTab, setActiveTab] = useState<TabType>('synced');
   
   // Data States
-  const [transcriptionText, setTranscriptionText] = useState(initialTranscription);
-  const [summaryText, setSummaryText] = useState<string | null>(null);
-  const [translationText, setTranslationText] = useState<string | null>(null);
-  const [notes, setNotes] = useState<Note[]>([]);
+  // Os segmentos são a fonte da verdade; o texto completo é derivado deles
+  const {
+    value: segments, set: setSegments, undo, redo, canUndo, canRedo
+  } = useUndoableState<TranscriptionSegment[]>(initialWorkspace?.segments ?? initialSegments);
+  const transcriptionText = segments.length > 0 ? deriveText(segments) : initialTranscription;
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [summaryText, setSummaryText] = useState<string | null>(initialWorkspace?.summary ?? null);
+  const [meetingSummary, setMeetingSummary] = useState<MeetingSummary | null>(initialWorkspace?.meetingSummary ?? null);
+  const [summaryMode, setSummaryMode] = useState<SummaryMode>(initialWorkspace?.meetingSummary ? 'meeting' : 'text');
+  const [meetingError, setMeetingError] = useState<string | null>(null);
+  const [chapters, setChapters] = useState<Chapter[] | null>(initialWorkspace?.chapters ?? null);
+  const [isLoadingChapters, setIsLoadingChapters] = useState(false);
+  const [chaptersError, setChaptersError] = useState<string | null>(null);
+  const [translations, setTranslations] = useState<TranslationCache>(initialWorkspace?.translations ?? {});
+  const [targetLanguage, setTargetLanguage] = useState(language === 'en' ? 'pt' : 'en');
+  const [notes, setNotes] = useState<Note[]>(initialWorkspace?.notes ?? []);
   
   // UI States
   const [copied, setCopied] = useState(false);
   const [isLoadingExtra, setIsLoadingExtra] = useState(false);
   const [showExportMenu, setShowExportMenu] = useState(false);
+  const [translationError, setTranslationError] = useState<string | null>(null);
 
   // Search States
   const [searchTerm, setSearchTerm] = useState('');
+  const [searchRegex, setSearchRegex] = useState(false);
+  const [searchWholeWord, setSearchWholeWord] = useState(false);
+  // Localizar e substituir (atua só nos segmentos; tempos são mantidos)
+  const [showReplace, setShowReplace] = useState(false);
+  const [replaceTerm, setReplaceTerm] = useState('');
+  const [replaceNotice, setReplaceNotice] = useState<string | null>(null);
   const [searchResults, setSearchResults] = useState<number[]>([]);
   const [currentResultIndex, setCurrentResultIndex] = useState(0);
 
   // Chat States
-  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  const [chatHistory, setChatHistory] = useState<ChatMessage[]>(initialWorkspace?.chatHistory ?? []);
   const [chatInput, setChatInput] = useState('');
   const [isChatLoading, setIsChatLoading] = useState(false);
+  // Resposta do modelo enquanto ainda está chegando
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   // Refine States
@@ -63,11 +115,19 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
 
   // Audio Player States
   const audioRef = useRef<HTMLAudioElement>(null);
-  const [currentTime, setCurrentTime] = useState(0);
+  // Abertura em um trecho específico: segmento citado e posição inicial do player
+  const [openIndex] = useState(() => initialTime === undefined ? -1 : findSegmentAt(segments, initialTime));
+  const pendingSeek = useRef(openIndex >= 0 ? segments[openIndex].start : undefined);
+  const [currentTime, setCurrentTime] = useState(pendingSeek.current ?? 0);
   const [duration, setDuration] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [playbackRate, setPlaybackRate] = useState<number>(1);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  // Forma de onda: decodificada só quando visível na aba Acompanhar
+  const [showWaveform, setShowWaveform] = useState(true);
+  const { waveform, isLoading: isLoadingWaveform, error: waveformError } = useWaveform(audioFile, activeTab === 'synced' && showWaveform);
+  const [isRealigning, setIsRealigning] = useState(false);
+  const [realignNotice, setRealignNotice] = useState<string | null>(null);
 
   useEffect(() => {
     if (audioFile) {
@@ -81,18 +141,32 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
     if (audioRef.current) audioRef.current.playbackRate = playbackRate;
   }, [playbackRate]);
 
+  // Chamadas à IA (chat, resumo, tradução...) são canceladas ao fechar a transcrição
+  const requestController = useRef<AbortController | null>(null);
+  useEffect(() => {
+    const controller = new AbortController();
+    requestController.current = controller;
+    return () => controller.abort();
+  }, []);
+  const requestSignal = () => requestController.current?.signal;
+
   // Search Logic
+  const search = useMemo(
+    () => compileSearch(searchTerm, { regex: searchRegex, wholeWord: searchWholeWord }),
+    [searchTerm, searchRegex, searchWholeWord]
+  );
+
   useEffect(() => {
-    if (!searchTerm) {
+    if (!search.pattern) {
       setSearchResults([]);
       return;
     }
     const results = segments
-      .map((seg, index) => seg.text.toLowerCase().includes(searchTerm.toLowerCase()) ? index : -1)
+      .map((seg, index) => countMatches(seg.text, search.pattern) > 0 ? index : -1)
       .filter(index => index !== -1);
     setSearchResults(results);
     setCurrentResultIndex(0);
-  }, [searchTerm, segments]);
+  }, [search, segments]);
 
   useEffect(() => {
     if (searchResults.length > 0 && activeTab === 'synced') {
@@ -104,7 +178,39 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [chatHistory]);
+  }, [chatHistory, streamingReply]);
+
+  useEffect(() => {
+    if (openIndex >= 0) document.getElementById(`segment-${openIndex}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [openIndex]);
+
+  // Atalhos de desfazer/refazer (ignorados enquanto o foco está em um campo de texto)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) { e.preventDefault(); undo(); }
+      else if (key === 'y' || (key === 'z' && e.shiftKey)) { e.preventDefault(); redo(); }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Persistência: avisa o pai (biblioteca) com debounce a cada alteração
+  const isFirstWorkspaceRender = useRef(true);
+  useEffect(() => {
+    if (isFirstWorkspaceRender.current) {
+      isFirstWorkspaceRender.current = false;
+      return;
+    }
+    if (!onWorkspaceChange) return;
+    const timeout = setTimeout(() => {
+      onWorkspaceChange({ text: transcriptionText, segments, notes, summary: summaryText, meetingSummary, chapters, translations, chatHistory });
+    }, 600);
+    return () => clearTimeout(timeout);
+  }, [transcriptionText, segments, notes, summaryText, meetingSummary, chapters, translations, chatHistory, onWorkspaceChange]);
 
   const handleNextResult = () => {
     if (searchResults.length === 0) return;
@@ -118,8 +224,28 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
     setCurrentResultIndex(prevIndex);
   };
 
+  const handleReplaceCurrent = () => {
+    if (!search.pattern || searchResults.length === 0) return;
+    setSegments(replaceInSegments(segments, search.pattern, replaceTerm, [searchResults[currentResultIndex]]));
+    setReplaceNotice(null);
+  };
+
+  const handleReplaceAll = () => {
+    if (!search.pattern || matchCounts.segments === 0) return;
+    setSegments(replaceInSegments(segments, search.pattern, replaceTerm));
+    setReplaceNotice(`${matchCounts.segments} ${matchCounts.segments === 1 ? 'substituição' : 'substituições'} (Ctrl+Z desfaz)`);
+  };
+
+  // Guarda a correção para as próximas transcrições
+  const handleSaveCorrection = () => {
+    if (!searchTerm.trim() || !replaceTerm.trim() || searchRegex) return;
+    addCorrection(searchTerm, replaceTerm);
+    setReplaceNotice(`"${searchTerm.trim()}" → "${replaceTerm.trim()}" salvo no glossário`);
+  };
+
+  // Resumo e tradução também destacam os resultados; as demais abas vão para Acompanhar
   const handleSearchFocus = () => {
-    if (activeTab === 'summary' || activeTab === 'translation' || activeTab === 'transcription' || activeTab === 'chat') {
+    if (activeTab === 'transcription' || activeTab === 'chat') {
       setActiveTab('synced');
     }
   };
@@ -135,11 +261,17 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
     setIsChatLoading(true);
 
     try {
-      const responseText = await sendChatMessage(chatHistory, transcriptionText, userMsg.text);
+      const history = chatHistory.filter(msg => !msg.isError);
+      const responseText = await sendChatMessage(history, buildChatContext(segments), userMsg.text, {
+        signal: requestSignal(),
+        onChunk: setStreamingReply
+      }, profileId);
       setChatHistory(prev => [...prev, { role: 'model', text: responseText }]);
     } catch (error) {
-      setChatHistory(prev => [...prev, { role: 'model', text: "Erro ao processar mensagem." }]);
+      if (isAbortError(error)) return;
+      setChatHistory(prev => [...prev, { role: 'model', text: `Erro ao processar mensagem: ${getErrorMessage(error)}`, isError: true }]);
     } finally {
+      setStreamingReply(null);
       setIsChatLoading(false);
     }
   };
@@ -150,13 +282,103 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
     if (!refinedText) {
       setIsRefining(true);
       try {
-        const text = await refineText(transcriptionText);
+        const text = await refineText(transcriptionText, requestSignal(), profileId);
         setRefinedText(text);
-      } catch (error) { setRefinedText("Erro ao refinar texto."); }
+      } catch (error) { if (!isAbortError(error)) setRefinedText(`Erro ao refinar texto: ${getErrorMessage(error)}`); }
       finally { setIsRefining(false); }
     }
   };
 
+  // Speaker Logic: locutores na ordem em que aparecem (define a cor de cada um)
+  const speakers = getSpeakers(segments);
+
+  // Capítulos: o atual (pelo player) e o segmento onde cada um começa, para os títulos na lista
+  const currentChapter = chapters ? findChapterAt(chapters, currentTime) : -1;
+  const chapterStarts = useMemo(() => {
+    const starts = new Map<number, Chapter>();
+    chapters?.forEach(chapter => {
+      const index = findSegmentAt(segments, chapter.start);
+      if (!starts.has(Math.max(0, index))) starts.set(Math.max(0, index), chapter);
+    });
+    return starts;
+  }, [chapters, segments]);
+  // Duração para os marcadores e a trilha de capítulos (sem áudio, usa o fim da transcrição)
+  const timelineDuration = duration || (segments.length > 0 ? segments[segments.length - 1].end : 0);
+
+  const handleGenerateChapters = async () => {
+    setIsLoadingChapters(true);
+    setChaptersError(null);
+    try {
+      setChapters(await generateChapters(segments, requestSignal(), profileId));
+    } catch (error) { if (!isAbortError(error)) setChaptersError(`Erro ao gerar capítulos: ${getErrorMessage(error)}`); }
+    finally { setIsLoadingChapters(false); }
+  };
+
+  const handleChapterClick = (chapter: Chapter) => {
+    handleSeek(chapter.start);
+    const index = findSegmentAt(segments, chapter.start);
+    if (activeTab === 'synced' && index >= 0) document.getElementById(`segment-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const handleChapterExport = (format: 'youtube' | 'vtt') => {
+    if (!chapters) return;
+    if (format === 'youtube') downloadFile(toYouTubeChapters(chapters), 'text/plain', buildFileName(metadata?.title, 'txt', 'capitulos'));
+    else downloadFile(toVttChapters(chapters, timelineDuration), 'text/vtt', buildFileName(metadata?.title, 'vtt', 'capitulos'));
+  };
+
+  // Clique na barra de progresso leva o player àquele ponto
+  const handleProgressClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!timelineDuration) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    handleSeek(((e.clientX - rect.left) / rect.width) * timelineDuration);
+  };
+
+  const renameSpeaker = (oldName: string, newName: string) => {
+    const name = newName.trim();
+    if (!name || name === oldName) return;
+    setSegments(prev => prev.map(seg => seg.speaker === oldName ? { ...seg, speaker: name } : seg));
+  };
+
+  // Segment Editing Logic (cada ação gera um passo de desfazer)
+  const saveSegmentText = (index: number, text: string) => {
+    setSegments(prev => prev[index].text === text ? prev : updateSegmentText(prev, index, text));
+    setEditingIndex(null);
+  };
+
+  const splitSegmentAt = (index: number, text: string, charIndex: number) => {
+    setSegments(prev => splitSegment(updateSegmentText(prev, index, text), index, charIndex));
+    setEditingIndex(null);
+  };
+
+  const mergeSegment = (index: number, text: string) => {
+    setSegments(prev => mergeWithNext(updateSegmentText(prev, index, text), index));
+  };
+
+  const nudgeSegmentEdge = (index: number, edge: 'start' | 'end', delta: number) => {
+    setSegments(prev => nudgeSegment(prev, index, edge, delta));
+  };
+
+  const moveSegmentEdge = (index: number, edge: 'start' | 'end', time: number) => {
+    setSegments(prev => setSegmentEdge(prev, index, edge, time));
+  };
+
+  // Ressincronizar: leva as fronteiras dos segmentos às pausas reais do áudio (Ctrl+Z desfaz)
+  const handleRealign = async () => {
+    if (!audioFile || isRealigning) return;
+    setIsRealigning(true);
+    try {
+      const result = realignSegments(segments, waveform ?? await loadWaveform(audioFile));
+      setSegments(result.segments);
+      setRealignNotice(result.adjusted > 0 ? `${result.adjusted} segmento(s) ajustado(s)` : "Tempos já alinhados ao áudio");
+    } catch (error) {
+      console.error("Erro ao ressincronizar:", error);
+      setRealignNotice("Não foi possível ler o áudio");
+    } finally {
+      setIsRealigning(false);
+      setTimeout(() => setRealignNotice(null), 4000);
+    }
+  };
+
   const addNote = () => {
     setNotes(prev => [...prev, { timestamp: currentTime, text: '' }]);
   };
@@ -171,29 +393,103 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
     setNotes(prev => prev.filter((_, i) => i !== index));
   };
 
-  const handleTabChange = async (tab: TabType) => {
-    if (isLoadingExtra || isChatLoading) return;
-    setActiveTab(tab);
-    if (tab === 'summary' && !summaryText) {
+  // Gera o resumo do modo escolhido na primeira vez que ele é aberto
+  const loadSummary = async (mode: SummaryMode, force = false) => {
+    if (mode === 'text' && (force || !summaryText)) {
       setIsLoadingExtra(true);
       try {
-        const result = await generateSummary(transcriptionText);
+        const result = await generateSummary(transcriptionText, requestSignal(), profileId);
         setSummaryText(result);
-      } catch (error) { setSummaryText("Erro resumo."); } 
+      } catch (error) { if (!isAbortError(error)) setSummaryText(`Erro ao gerar o resumo: ${getErrorMessage(error)}`); } 
       finally { setIsLoadingExtra(false); }
     }
-    if (tab === 'translation' && !translationText) {
+    if (mode === 'meeting' && (force || !meetingSummary)) {
       setIsLoadingExtra(true);
+      setMeetingError(null);
       try {
-        const result = await translateText(transcriptionText);
-        setTranslationText(result);
-      } catch (error) { setTranslationText("Erro tradução."); } 
+        setMeetingSummary(await generateMeetingSummary(segments, requestSignal(), profileId));
+      } catch (error) { if (!isAbortError(error)) setMeetingError(`Erro ao gerar a ata: ${getErrorMessage(error)}`); }
       finally { setIsLoadingExtra(false); }
     }
   };
 
+  const handleSummaryModeChange = (mode: SummaryMode) => {
+    if (isLoadingExtra) return;
+    setSummaryMode(mode);
+    loadSummary(mode);
+  };
+
+  const toggleActionItem = (index: number) => {
+    setMeetingSummary(prev => prev && {
+      ...prev,
+      actionItems: prev.actionItems.map((item, i) => i === index ? { ...item, done: !item.done } : item)
+    });
+  };
+
+  const handleExportTasks = () => {
+    if (!meetingSummary) return;
+    downloadFile(toTaskList(meetingSummary, metadata?.title), 'text/markdown', buildFileName(metadata?.title, 'md', 'tarefas'));
+  };
+
+  const handleTabChange = async (tab: TabType) => {
+    if (isLoadingExtra || isChatLoading) return;
+    setActiveTab(tab);
+    if (tab === 'summary') await loadSummary(summaryMode);
+    if (tab === 'translation' && !translations[targetLanguage]) {
+      await handleTranslate(targetLanguage);
+    }
+  };
+
+  // Translation Logic: uma tradução por idioma de destino, guardada em cache
+  const currentTranslation = translations[targetLanguage];
+  // Segmentos editados depois da tradução deixam o alinhamento desatualizado
+  const isTranslationStale = !!currentTranslation && (
+    currentTranslation.length !== segments.length ||
+    currentTranslation.some((seg, i) => seg.start !== segments[i].start || seg.end !== segments[i].end)
+  );
+
+  const alignedTranslation = currentTranslation ? alignTranslation(segments, currentTranslation) : [];
+
+  // Ocorrências da busca em cada área (a navegação percorre os segmentos)
+  const matchCounts = useMemo(() => {
+    const sum = (texts: string[]) => texts.reduce((total, text) => total + countMatches(text, search.pattern), 0);
+    return {
+      segments: sum(segments.map(seg => seg.text)),
+      notes: sum(notes.map(note => note.text)),
+      summary: sum([summaryText || '']),
+      translation: sum((currentTranslation || []).map(seg => seg.text))
+    };
+  }, [search, segments, notes, summaryText, currentTranslation]);
+  const totalMatches = matchCounts.segments + matchCounts.notes + matchCounts.summary + matchCounts.translation;
+
+  const handleTranslate = async (target: string) => {
+    setIsLoadingExtra(true);
+    setTranslationError(null);
+    try {
+      const result = await translateSegments(segments, target, requestSignal(), profileId);
+      setTranslations(prev => ({ ...prev, [target]: result }));
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error(error);
+      setTranslationError(`Erro ao traduzir: ${getErrorMessage(error)}`);
+    } finally { setIsLoadingExtra(false); }
+  };
+
+  const handleTargetLanguageChange = (target: string) => {
+    setTargetLanguage(target);
+    if (!translations[target]) handleTranslate(target);
+  };
+
   const handleTimeUpdate = () => { if (audioRef.current) setCurrentTime(audioRef.current.currentTime); };
-  const handleLoadedMetadata = () => { if (audioRef.current) setDuration(audioRef.current.duration); };
+  const handleLoadedMetadata = () => {
+    if (!audioRef.current) return;
+    setDuration(audioRef.current.duration);
+    // Só na primeira carga: depois o usuário controla o player
+    if (pendingSeek.current !== undefined) {
+      audioRef.current.currentTime = pendingSeek.current;
+      pendingSeek.current = undefined;
+    }
+  };
   
   const handleSeek = (time: number) => {
     if (audioRef.current) {
@@ -213,8 +509,8 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
 
   const getCurrentText = () => {
     switch (activeTab) {
-      case 'summary': return summaryText || '';
-      case 'translation': return translationText || '';
+      case 'summary': return summaryMode === 'meeting' ? (meetingSummary ? toTaskList(meetingSummary, metadata?.title) : '') : summaryText || '';
+      case 'translation': return currentTranslation ? deriveText(currentTranslation) : '';
       case 'synced': return transcriptionText;
       case 'chat': return '';
       default: return transcriptionText;
@@ -229,24 +525,42 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
     } catch (err) { console.error(err); }
   };
 
-  const handleExport = (format: ExportFormat | 'pdf') => {
+  // A fonte do PDF só cobre alfabetos latinos
+  const pdfSupported = useMemo(
+    () => canExportPdf({ metadata, category, segments, notes, summary: summaryText }),
+    [metadata, category, segments, notes, summaryText]
+  );
+
+  const handleExport = async (format: ExportFormat | 'print') => {
     setShowExportMenu(false);
-    if (format === 'pdf') { window.print(); return; }
+    if (format === 'print') { window.print(); return; }
 
-    let content = '', mime = 'text/plain', ext = 'txt';
-    if (format === 'json') {
-      content = JSON.stringify({ metadata, category, segments, text: transcriptionText, notes }, null, 2);
-      mime = 'application/json'; ext = 'json';
-    } else if (format === 'srt') {
-      ext = 'srt';
-      content = segments.map((s, i) => `${i+1}\n${formatSRTTime(s.start)} --> ${formatSRTTime(s.end)}\n${s.text}\n`).join('\n');
-    } else { content = transcriptionText; }
+    const doc: ExportDocument = { metadata, category, segments, notes, summary: summaryText };
+    const fileName = buildFileName(metadata?.title, format);
+    try {
+      switch (format) {
+        case 'json':
+          downloadFile(toAppJson({ ...doc, language, text: transcriptionText, translations, meetingSummary, chapters }), 'application/json', fileName);
+          break;
+        case 'srt': downloadFile(toSrt(buildSubtitleCues(segments)), 'text/plain', fileName); break;
+        case 'vtt': downloadFile(toVtt(buildSubtitleCues(segments), metadata?.title), 'text/vtt', fileName); break;
+        case 'md': downloadFile(toMarkdown(doc), 'text/markdown', fileName); break;
+        case 'csv': downloadFile(toCsv(segments), 'text/csv', fileName); break;
+        case 'docx': downloadFile(await toDocx(doc), 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', fileName); break;
+        case 'pdf': downloadFile(toPdf(doc), 'application/pdf', fileName); break;
+        default: downloadFile(speakers.length > 0 ? formatSpeakerTranscript(segments) : transcriptionText, 'text/plain', fileName);
+      }
+    } catch (error) { console.error("Erro ao exportar:", error); }
+  };
 
-    const blob = new Blob([content], { type: mime });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url; a.download = `claria_ai_${ext}.${ext}`;
-    document.body.appendChild(a); a.click(); document.body.removeChild(a); URL.revokeObjectURL(url);
+  // Legendas traduzidas (ou bilíngues) com os tempos dos segmentos originais
+  const handleSubtitleExport = (format: 'srt' | 'vtt', mode: SubtitleMode, targetLang: string) => {
+    setShowExportMenu(false);
+    const translation = translations[targetLang];
+    if (!translation) return;
+    const cues = buildSubtitleCues(segments, mode, translation);
+    const suffix = mode === 'bilingual' ? `${language || 'orig'}-${targetLang}` : targetLang;
+    downloadFile(format === 'srt' ? toSrt(cues) : toVtt(cues, metadata?.title), format === 'srt' ? 'text/plain' : 'text/vtt', buildFileName(metadata?.title, format, suffix));
   };
 
   const getBadgeColor = () => {
@@ -257,16 +571,44 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
     return 'bg-slate-100 text-slate-700';
   };
 
+  // Tempos citados pelo modelo ("[02:15]") viram atalhos para o trecho no áudio
+  const renderChatAnswer = (text: string) => splitCitations(text).map((part, i) =>
+    part.type === 'citation' ? (
+      <button key={i} onClick={() => handleSeek(part.seconds)} title="Ouvir este trecho"
+        className="inline-flex items-center gap-0.5 mx-0.5 px-1.5 py-0.5 align-baseline rounded bg-blue-50 text-blue-700 font-mono text-xs font-semibold hover:bg-blue-100 transition-colors">
+        <PlayCircle size={11} /> {part.text}
+      </button>
+    ) : <React.Fragment key={i}>{part.text}</React.Fragment>
+  );
+
   const renderHighlightedText = (text: string) => {
-    if (!searchTerm) return text;
-    const parts = text.split(new RegExp(`(${searchTerm})`, 'gi'));
-    return parts.map((part, i) => 
-      part.toLowerCase() === searchTerm.toLowerCase() 
-        ? <mark key={i} className="bg-yellow-200 text-yellow-900 rounded px-0.5">{part}</mark> 
-        : part
+    if (!search.pattern) return text;
+    return splitByMatches(text, search.pattern).map((part, i) =>
+      part.match
+        ? <mark key={i} className="bg-yellow-200 text-yellow-900 rounded px-0.5">{part.text}</mark>
+        : part.text
     );
   };
 
+  // Texto palavra a palavra: destaca a palavra em reprodução (estilo karaokê),
+  // cada palavra leva o player até ela e as de confiança baixa ficam sublinhadas
+  const renderWords = (seg: TranscriptionSegment, isActive: boolean) => {
+    const current = isActive ? findWordAt(seg.words!, currentTime) : -1;
+    return seg.words!.map((word, w) => {
+      const doubtful = isLowConfidence(word);
+      return (
+        <React.Fragment key={w}>
+          {w > 0 && ' '}
+          <span onClick={(e) => { e.stopPropagation(); handleSeek(word.start); }}
+            title={doubtful ? `Confiança baixa (${Math.round(word.confidence! * 100)}%). Confira este trecho.` : undefined}
+            className={`rounded transition-colors ${w === current ? 'bg-blue-600 text-white' : 'hover:bg-blue-100'} ${doubtful ? 'underline decoration-amber-400 decoration-dotted decoration-2 underline-offset-4' : ''}`}>
+            {word.text}
+          </span>
+        </React.Fragment>
+      );
+    });
+  };
+
   const getTabButtonClass = (tabName: TabType) => {
     const base = "flex items-center gap-2 px-3 py-2 text-sm font-semibold rounded-lg transition-all";
     const active = "bg-white text-blue-600 shadow-sm";
@@ -322,19 +664,69 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
                        <span className={`flex-shrink-0 px-3 py-1 rounded-full text-xs font-bold flex items-center gap-1.5 uppercase tracking-wide ${getBadgeColor()}`}>
                           <Tag size={12} /> {category}
                        </span>
+                       {language && (
+                         <span className="flex-shrink-0 px-2 py-1 rounded-full text-xs font-bold uppercase tracking-wide bg-slate-100 text-slate-600" title={getLanguageName(language)}>
+                           {language}
+                         </span>
+                       )}
                        <h2 className="text-lg font-bold text-slate-800 truncate" title={metadata?.title}>{metadata?.title}</h2>
                    </div>
                    
-                   <div className="relative group w-full sm:w-64">
+                   <div className="w-full sm:w-72">
+                     <div className="relative group">
                        <input 
                           type="text" 
                           placeholder="Pesquisar..." 
                           value={searchTerm} 
-                          onChange={(e) => setSearchTerm(e.target.value)} 
+                          onChange={(e) => { setSearchTerm(e.target.value); setReplaceNotice(null); }} 
                           onFocus={handleSearchFocus}
-                          className="w-full pl-9 pr-4 py-1.5 text-sm bg-white text-slate-800 border border-slate-300 rounded-lg focus:outline-none focus:border-blue-400 focus:ring-1 focus:ring-blue-200 placeholder:text-slate-400" 
+                          onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); if (e.shiftKey) handlePrevResult(); else handleNextResult(); } }}
+                          title={search.error}
+                          className={`w-full pl-9 pr-24 py-1.5 text-sm bg-white text-slate-800 border rounded-lg focus:outline-none focus:ring-1 placeholder:text-slate-400 ${search.error ? 'border-red-300 focus:border-red-400 focus:ring-red-200' : 'border-slate-300 focus:border-blue-400 focus:ring-blue-200'}`}
                        />
                        <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+                       <div className="absolute right-1.5 top-1/2 -translate-y-1/2 flex items-center gap-0.5">
+                         <button onClick={() => setShowReplace(v => !v)} title="Localizar e substituir"
+                           className={`p-1 rounded ${showReplace ? 'bg-blue-100 text-blue-700' : 'text-slate-400 hover:text-slate-600'}`}><Replace size={12} /></button>
+                         <button onClick={() => setSearchWholeWord(v => !v)} title="Palavra inteira"
+                           className={`px-1.5 py-0.5 rounded text-[11px] font-bold underline underline-offset-2 ${searchWholeWord ? 'bg-blue-100 text-blue-700' : 'text-slate-400 hover:text-slate-600'}`}>ab</button>
+                         <button onClick={() => setSearchRegex(v => !v)} title="Expressão regular"
+                           className={`px-1.5 py-0.5 rounded text-[11px] font-mono font-bold ${searchRegex ? 'bg-blue-100 text-blue-700' : 'text-slate-400 hover:text-slate-600'}`}>.*</button>
+                       </div>
+                     </div>
+                     {search.pattern && (
+                       <div className="flex items-center justify-between gap-2 mt-1 text-xs text-slate-500">
+                         <span title={`${matchCounts.segments} na transcrição · ${matchCounts.notes} nas anotações · ${matchCounts.summary} no resumo · ${matchCounts.translation} na tradução`}>
+                           {totalMatches === 0 ? 'Nenhum resultado' : `${totalMatches} ${totalMatches === 1 ? 'ocorrência' : 'ocorrências'}`}
+                           {searchResults.length > 0 && ` · trecho ${currentResultIndex + 1} de ${searchResults.length}`}
+                         </span>
+                         {searchResults.length > 0 && (
+                           <span className="flex items-center">
+                             <button onClick={handlePrevResult} title="Anterior (Shift+Enter)" className="p-0.5 rounded hover:bg-slate-100"><ChevronUp size={14} /></button>
+                             <button onClick={handleNextResult} title="Próximo (Enter)" className="p-0.5 rounded hover:bg-slate-100"><ChevronDown size={14} /></button>
+                           </span>
+                         )}
+                       </div>
+                     )}
+                     {search.error && <p className="mt-1 text-xs text-red-600">{search.error}</p>}
+                     {showReplace && (
+                       <div className="flex items-center gap-1 mt-1.5">
+                         <input
+                           type="text"
+                           placeholder="Substituir por..."
+                           value={replaceTerm}
+                           onChange={(e) => { setReplaceTerm(e.target.value); setReplaceNotice(null); }}
+                           className="flex-grow min-w-0 px-3 py-1.5 text-sm bg-white text-slate-800 border border-slate-300 rounded-lg focus:outline-none focus:border-blue-400 focus:ring-1 focus:ring-blue-200 placeholder:text-slate-400"
+                         />
+                         <button onClick={handleReplaceCurrent} disabled={searchResults.length === 0} title="Substituir no trecho atual"
+                           className="p-1.5 rounded-lg border bg-white hover:border-blue-200 hover:text-blue-600 disabled:opacity-40 disabled:pointer-events-none"><Replace size={14} /></button>
+                         <button onClick={handleReplaceAll} disabled={matchCounts.segments === 0} title="Substituir em todos os segmentos"
+                           className="p-1.5 rounded-lg border bg-white hover:border-blue-200 hover:text-blue-600 disabled:opacity-40 disabled:pointer-events-none"><ReplaceAll size={14} /></button>
+                         <button onClick={handleSaveCorrection} disabled={!searchTerm.trim() || !replaceTerm.trim() || searchRegex} title="Salvar correção no glossário (aplicada às próximas transcrições)"
+                           className="p-1.5 rounded-lg border bg-white hover:border-blue-200 hover:text-blue-600 disabled:opacity-40 disabled:pointer-events-none"><BookPlus size={14} /></button>
+                       </div>
+                     )}
+                     {showReplace && replaceNotice && <p className="mt-1 text-xs text-green-600">{replaceNotice}</p>}
                    </div>
                </div>
 
@@ -344,20 +736,55 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
                    <button onClick={() => handleTabChange('synced')} disabled={isLoadingExtra} className={getTabButtonClass('synced')}><PlayCircle size={16} /> Acompanhar</button>
                    <button onClick={() => handleTabChange('transcription')} disabled={isLoadingExtra} className={getTabButtonClass('transcription')}><FileText size={16} /> Texto</button>
                    <button onClick={() => handleTabChange('summary')} disabled={isLoadingExtra} className={getTabButtonClass('summary')}><ListChecks size={16} /> Resumo</button>
+                   <button onClick={() => handleTabChange('translation')} disabled={isLoadingExtra} className={getTabButtonClass('translation')}><Languages size={16} /> Tradução</button>
                    <button onClick={() => handleTabChange('chat')} disabled={isLoadingExtra} className={getTabButtonClass('chat')}><MessageSquare size={16} /> Chat IA</button>
                  </div>
 
                  <div className="flex items-center gap-2">
+                   <button onClick={undo} disabled={!canUndo} title="Desfazer (Ctrl+Z)" className="p-2 rounded-lg border bg-white hover:border-blue-200 hover:text-blue-600 transition-all disabled:opacity-40 disabled:pointer-events-none">
+                     <Undo2 size={16} />
+                   </button>
+                   <button onClick={redo} disabled={!canRedo} title="Refazer (Ctrl+Y)" className="p-2 rounded-lg border bg-white hover:border-blue-200 hover:text-blue-600 transition-all disabled:opacity-40 disabled:pointer-events-none">
+                     <Redo2 size={16} />
+                   </button>
                    <div className="relative">
                       <button onClick={() => setShowExportMenu(!showExportMenu)} className="flex items-center gap-2 px-3 py-2 text-sm font-semibold text-slate-600 bg-white border border-slate-200 rounded-lg hover:border-blue-200 hover:text-blue-600 transition-all">
                         <Download size={16} /> Exportar
                       </button>
                       {showExportMenu && (
-                        <div className="absolute right-0 mt-2 w-48 bg-white rounded-xl shadow-xl border border-slate-100 z-50 overflow-hidden animate-in fade-in zoom-in-95">
+                        <div className="absolute right-0 mt-2 w-56 bg-white rounded-xl shadow-xl border border-slate-100 z-50 overflow-hidden animate-in fade-in zoom-in-95">
                           <button onClick={() => handleExport('txt')} className="w-full text-left px-4 py-2 text-sm hover:bg-slate-50">Texto (.txt)</button>
                           <button onClick={() => handleExport('json')} className="w-full text-left px-4 py-2 text-sm hover:bg-slate-50">JSON (.json)</button>
                           <button onClick={() => handleExport('srt')} className="w-full text-left px-4 py-2 text-sm hover:bg-slate-50">Legendas (.srt)</button>
-                          <button onClick={() => handleExport('pdf')} className="w-full text-left px-4 py-2 text-sm hover:bg-slate-50 font-medium">Imprimir / PDF</button>
+                          <button onClick={() => handleExport('vtt')} className="w-full text-left px-4 py-2 text-sm hover:bg-slate-50">WebVTT (.vtt)</button>
+                          <button onClick={() => handleExport('md')} className="w-full text-left px-4 py-2 text-sm hover:bg-slate-50">Markdown (.md)</button>
+                          <button onClick={() => handleExport('csv')} className="w-full text-left px-4 py-2 text-sm hover:bg-slate-50">Planilha (.csv)</button>
+                          <button onClick={() => handleExport('docx')} className="w-full text-left px-4 py-2 text-sm hover:bg-slate-50">Word (.docx)</button>
+                          <button
+                            onClick={() => handleExport('pdf')}
+                            disabled={!pdfSupported}
+                            title={pdfSupported ? undefined : "O PDF só suporta alfabetos latinos. Use Word (.docx) ou Imprimir."}
+                            className="w-full text-left px-4 py-2 text-sm hover:bg-slate-50 font-medium disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+                          >
+                            PDF (.pdf)
+                          </button>
+                          <button onClick={() => handleExport('print')} className="w-full text-left px-4 py-2 text-sm hover:bg-slate-50">Imprimir</button>
+                          {Object.keys(translations).length > 0 && (
+                            <div className="border-t border-slate-100 py-1">
+                              <p className="px-4 pt-2 pb-1 text-[10px] font-bold uppercase tracking-wide text-slate-400">Legendas traduzidas</p>
+                              {Object.keys(translations).map(lang => (
+                                <div key={lang} className="px-4 py-1.5 text-sm">
+                                  <span className="block text-slate-700 font-medium mb-1">{getLanguageName(lang)}</span>
+                                  <div className="flex flex-wrap gap-1">
+                                    <button onClick={() => handleSubtitleExport('srt', 'translated', lang)} className="px-2 py-0.5 text-xs rounded border border-slate-200 hover:border-blue-300 hover:text-blue-600">.srt</button>
+                                    <button onClick={() => handleSubtitleExport('vtt', 'translated', lang)} className="px-2 py-0.5 text-xs rounded border border-slate-200 hover:border-blue-300 hover:text-blue-600">.vtt</button>
+                                    <button onClick={() => handleSubtitleExport('srt', 'bilingual', lang)} className="px-2 py-0.5 text-xs rounded border border-slate-200 hover:border-blue-300 hover:text-blue-600">Bilíngue .srt</button>
+                                    <button onClick={() => handleSubtitleExport('vtt', 'bilingual', lang)} className="px-2 py-0.5 text-xs rounded border border-slate-200 hover:border-blue-300 hover:text-blue-600">Bilíngue .vtt</button>
+                                  </div>
+                                </div>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       )}
                       {showExportMenu && <div className="fixed inset-0 z-40" onClick={() => setShowExportMenu(false)}></div>}
@@ -378,8 +805,26 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
                     {isPlaying ? <Pause size={20} fill="currentColor" /> : <Play size={20} fill="currentColor" className="ml-0.5" />}
                   </button>
                   <div className="text-sm font-medium text-slate-600 font-mono">{formatTime(currentTime)} / {formatTime(duration)}</div>
+                  {realignNotice && <span className="text-xs text-green-600 whitespace-nowrap">{realignNotice}</span>}
+               </div>
+               <div onClick={handleProgressClick} className="relative flex-grow h-2 bg-slate-200 rounded-full cursor-pointer group/progress">
+                 <div className="absolute inset-y-0 left-0 bg-blue-500 rounded-full" style={{ width: `${duration ? Math.min(100, (currentTime / duration) * 100) : 0}%` }}></div>
+                 {/* Marcadores de capítulo */}
+                 {duration > 0 && chapters?.map((chapter, i) => i > 0 && (
+                   <span key={i} title={`${formatTime(chapter.start)} ${chapter.title}`}
+                     className="absolute -top-1 w-1 h-4 -ml-0.5 bg-white border border-slate-400 rounded-sm hover:bg-blue-600 hover:border-blue-600"
+                     style={{ left: `${Math.min(100, (chapter.start / duration) * 100)}%` }}></span>
+                 ))}
                </div>
                <div className="flex items-center gap-2">
+                 <button onClick={handleRealign} disabled={isRealigning} title="Ressincronizar: ajusta os tempos dos segmentos às pausas do áudio"
+                   className="p-1.5 rounded-lg text-slate-400 hover:text-blue-600 disabled:opacity-50 transition-colors">
+                   {isRealigning ? <Loader2 size={16} className="animate-spin" /> : <Magnet size={16} />}
+                 </button>
+                 <button onClick={() => setShowWaveform(!showWaveform)} title={showWaveform ? "Ocultar forma de onda" : "Mostrar forma de onda"}
+                   className={`p-1.5 rounded-lg transition-colors ${showWaveform ? 'text-blue-600 bg-blue-50' : 'text-slate-400 hover:text-blue-600'}`}>
+                   <AudioWaveform size={16} />
+                 </button>
                  <Gauge size={16} className="text-slate-400" />
                  <select value={playbackRate} onChange={(e) => setPlaybackRate(parseFloat(e.target.value))} className="bg-white border border-slate-200 text-xs font-semibold rounded-lg px-2 py-1.5">
                    <option value="0.5">0.5x</option><option value="1">1.0x</option><option value="1.5">1.5x</option><option value="2.0">2.0x</option>
@@ -387,6 +832,22 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
                </div>
              </div>
           )}
+          {activeTab === 'synced' && audioFile && showWaveform && (
+             waveform ? (
+               <WaveformTimeline waveform={waveform} segments={segments} currentTime={currentTime} onSeek={handleSeek} onEdgeChange={moveSegmentEdge} />
+             ) : (
+               <div className="px-6 py-3 border-b border-slate-100 flex items-center gap-2 text-xs text-slate-400 no-print">
+                 {isLoadingWaveform ? <><Loader2 size={14} className="animate-spin" /> Lendo o áudio para desenhar a forma de onda...</> : waveformError}
+               </div>
+             )
+          )}
+          {activeTab === 'synced' && !audioFile && onAttachAudio && (
+             <label className="bg-slate-50 px-6 py-3 border-b border-slate-100 flex items-center justify-center gap-2 text-sm font-medium text-slate-500 hover:text-blue-600 cursor-pointer no-print">
+               <FileAudio size={16} /> Anexar o áudio correspondente para sincronizar a reprodução
+               <input type="file" accept=".mp3,.wav,.m4a,audio/*" className="hidden"
+                 onChange={(e) => { const f = e.target.files?.[0]; if (f) onAttachAudio(f); }} />
+             </label>
+          )}
           {audioUrl && <audio ref={audioRef} src={audioUrl} onTimeUpdate={handleTimeUpdate} onLoadedMetadata={handleLoadedMetadata} onEnded={() => setIsPlaying(false)} className="hidden" />}
 
           {/* Main Content Area */}
@@ -401,16 +862,97 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
                      {segments.map((seg, i) => {
                        const isActive = currentTime >= seg.start && currentTime <= seg.end;
                        const isMatch = searchResults[currentResultIndex] === i;
+                       const speakerColor = seg.speaker ? SPEAKER_COLORS[speakers.indexOf(seg.speaker) % SPEAKER_COLORS.length] : null;
+                       // Só mostra o rótulo quando o locutor muda
+                       const showSpeaker = speakerColor && (i === 0 || segments[i - 1].speaker !== seg.speaker);
+                       const chapter = chapterStarts.get(i);
                        return (
-                         <div key={i} id={`segment-${i}`} onClick={() => handleSeek(seg.start)} 
-                           className={`p-3 rounded-lg transition-all cursor-pointer border border-transparent ${isActive ? 'bg-blue-50 border-blue-100 scale-[1.01]' : 'hover:bg-slate-50'} ${isMatch ? 'ring-2 ring-yellow-400' : ''}`}>
-                           <p className={`text-lg leading-relaxed ${isActive ? 'text-blue-900 font-semibold' : 'text-slate-600'}`}>{renderHighlightedText(seg.text)}</p>
-                           {isActive && <span className="text-xs text-blue-400 font-mono mt-1 block no-print">{formatTime(seg.start)}</span>}
+                         <React.Fragment key={i}>
+                         {chapter && (
+                           <h3 className={`flex items-center gap-2 pt-4 text-sm font-bold uppercase tracking-wide ${chapters?.indexOf(chapter) === currentChapter ? 'text-blue-600' : 'text-slate-400'}`}>
+                             <ListTree size={14} /> {chapter.title}
+                           </h3>
+                         )}
+                         <div id={`segment-${i}`} onClick={() => editingIndex !== i && handleSeek(seg.start)} 
+                           className={`relative group/segment p-3 rounded-lg transition-all cursor-pointer border border-transparent ${speakerColor ? `border-l-4 ${speakerColor.border}` : ''} ${isActive ? 'bg-blue-50 border-blue-100 scale-[1.01]' : 'hover:bg-slate-50'} ${isMatch ? 'ring-2 ring-yellow-400' : ''} ${seg.issue ? 'bg-amber-50/60' : ''}`}>
+                           {seg.issue && editingIndex !== i && (
+                             <span title={`${seg.issue}. Edite o segmento para confirmar.`} className="inline-flex items-center gap-1 text-xs font-semibold text-amber-700 bg-amber-100 px-2 py-0.5 rounded-full mb-1 mr-2 no-print">
+                               <AlertTriangle size={12} /> Revisar tempo
+                             </span>
+                           )}
+                           {showSpeaker && <span className={`inline-block text-xs font-bold uppercase tracking-wide px-2 py-0.5 rounded-full mb-1 ${speakerColor.badge}`}>{seg.speaker}</span>}
+                           {editingIndex === i ? (
+                             <SegmentEditor
+                               segment={seg}
+                               hasNext={i < segments.length - 1}
+                               onSave={(text) => saveSegmentText(i, text)}
+                               onSplit={(text, charIndex) => splitSegmentAt(i, text, charIndex)}
+                               onMerge={(text) => mergeSegment(i, text)}
+                               onNudge={(edge, delta) => nudgeSegmentEdge(i, edge, delta)}
+                               onCancel={() => setEditingIndex(null)}
+                             />
+                           ) : (
+                             <>
+                               <p className={`text-lg leading-relaxed ${isActive ? 'text-blue-900 font-semibold' : 'text-slate-600'}`}>
+                                 {seg.words && !search.pattern ? renderWords(seg, isActive) : renderHighlightedText(seg.text)}
+                               </p>
+                               {isActive && <span className="text-xs text-blue-400 font-mono mt-1 block no-print">{formatTime(seg.start)}</span>}
+                               <button onClick={(e) => { e.stopPropagation(); setEditingIndex(i); }} title="Editar segmento"
+                                 className="absolute top-2 right-2 p-1.5 rounded-lg text-slate-400 hover:text-blue-600 hover:bg-white opacity-0 group-hover/segment:opacity-100 transition-opacity no-print">
+                                 <PenLine size={14} />
+                               </button>
+                             </>
+                           )}
                          </div>
+                         </React.Fragment>
                        );
                      })}
                      <div className="h-20 no-print"></div>
                    </div>
+                 ) : activeTab === 'translation' ? (
+                   <div className="flex flex-col h-full">
+                     <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-3 border-b border-slate-100 bg-slate-50/50 no-print">
+                       <div className="flex items-center gap-2 text-sm">
+                         <span className="text-slate-500 font-medium">{getLanguageName(language)}</span>
+                         <ArrowRight size={14} className="text-slate-400" />
+                         <select value={targetLanguage} onChange={(e) => handleTargetLanguageChange(e.target.value)}
+                           className="bg-white border border-slate-200 text-sm font-semibold rounded-lg px-2 py-1.5 focus:outline-none focus:border-blue-400">
+                           {SUPPORTED_LANGUAGES.filter(lang => lang.code !== language).map(lang => (
+                             <option key={lang.code} value={lang.code}>{lang.name}{translations[lang.code] ? ' ✓' : ''}</option>
+                           ))}
+                         </select>
+                       </div>
+                       {currentTranslation && !isTranslationStale && (
+                         <div className="flex items-center gap-1 text-xs">
+                           <Download size={14} className="text-slate-400 mr-1" />
+                           <button onClick={() => handleSubtitleExport('srt', 'translated', targetLanguage)} className="px-2 py-1 rounded border border-slate-200 bg-white hover:border-blue-300 hover:text-blue-600">.srt</button>
+                           <button onClick={() => handleSubtitleExport('vtt', 'translated', targetLanguage)} className="px-2 py-1 rounded border border-slate-200 bg-white hover:border-blue-300 hover:text-blue-600">.vtt</button>
+                           <button onClick={() => handleSubtitleExport('srt', 'bilingual', targetLanguage)} className="px-2 py-1 rounded border border-slate-200 bg-white hover:border-blue-300 hover:text-blue-600">Bilíngue</button>
+                         </div>
+                       )}
+                       {(isTranslationStale || translationError) && (
+                         <button onClick={() => handleTranslate(targetLanguage)} className="flex items-center gap-2 text-xs font-semibold text-amber-700 bg-amber-50 border border-amber-200 px-3 py-1.5 rounded-lg hover:bg-amber-100">
+                           <RefreshCw size={12} /> {translationError ? translationError : 'Segmentos editados — retraduzir'}
+                         </button>
+                       )}
+                     </div>
+                     <div className="flex-grow overflow-y-auto p-6 space-y-2">
+                       {currentTranslation ? segments.map((seg, i) => {
+                         const translated = alignedTranslation[i];
+                         const isActive = currentTime >= seg.start && currentTime <= seg.end;
+                         return (
+                           <div key={i} onClick={() => handleSeek(seg.start)}
+                             className={`grid grid-cols-[auto_1fr_1fr] gap-4 p-3 rounded-lg cursor-pointer transition-all ${isActive ? 'bg-blue-50' : 'hover:bg-slate-50'}`}>
+                             <span className="text-xs font-mono text-blue-500 pt-1">{formatTime(seg.start)}</span>
+                             <p className="text-slate-600 leading-relaxed">{renderHighlightedText(seg.text)}</p>
+                             <p className={`leading-relaxed ${translated ? 'text-slate-900' : 'text-slate-300 italic'}`}>{translated ? renderHighlightedText(translated.text) : '—'}</p>
+                           </div>
+                         );
+                       }) : (
+                         <p className="text-center text-slate-400 py-12">{translationError || 'Escolha um idioma para traduzir.'}</p>
+                       )}
+                     </div>
+                   </div>
                  ) : activeTab === 'chat' ? (
                    <div className="flex flex-col h-full">
                      <div className="flex-grow p-6 space-y-4 overflow-y-auto bg-slate-50">
@@ -423,12 +965,19 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
                        )}
                        {chatHistory.map((msg, i) => (
                          <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                           <div className={`max-w-[80%] p-4 rounded-2xl text-sm leading-relaxed ${msg.role === 'user' ? 'bg-blue-600 text-white rounded-br-none' : 'bg-white border border-slate-200 text-slate-700 rounded-bl-none shadow-sm'}`}>
-                             {msg.text}
+                           <div className={`max-w-[80%] p-4 rounded-2xl text-sm leading-relaxed whitespace-pre-wrap ${msg.role === 'user' ? 'bg-blue-600 text-white rounded-br-none' : msg.isError ? 'bg-red-50 border border-red-100 text-red-700 rounded-bl-none' : 'bg-white border border-slate-200 text-slate-700 rounded-bl-none shadow-sm'}`}>
+                             {msg.role === 'model' && !msg.isError ? renderChatAnswer(msg.text) : msg.text}
                            </div>
                          </div>
                        ))}
-                       {isChatLoading && <div className="flex justify-start"><div className="bg-white border p-3 rounded-2xl rounded-bl-none"><Loader2 size={16} className="animate-spin text-slate-400"/></div></div>}
+                       {streamingReply && (
+                         <div className="flex justify-start">
+                           <div className="max-w-[80%] p-4 rounded-2xl text-sm leading-relaxed whitespace-pre-wrap bg-white border border-slate-200 text-slate-700 rounded-bl-none shadow-sm">
+                             {renderChatAnswer(streamingReply)}
+                           </div>
+                         </div>
+                       )}
+                       {isChatLoading && !streamingReply && <div className="flex justify-start"><div className="bg-white border p-3 rounded-2xl rounded-bl-none"><Loader2 size={16} className="animate-spin text-slate-400"/></div></div>}
                        <div ref={chatEndRef}></div>
                      </div>
                      <form onSubmit={handleSendMessage} className="p-4 bg-white border-t border-slate-100 flex gap-2">
@@ -439,9 +988,41 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
                    </div>
                  ) : (
                    <div className="p-8 h-full flex flex-col">
-                     <textarea value={getCurrentText()} readOnly={activeTab !== 'transcription'} className="w-full flex-grow text-slate-800 bg-white leading-loose text-lg resize-none focus:outline-none mb-4" />
+                     {activeTab === 'summary' && (
+                       <div className="flex gap-1 bg-slate-50 p-1 rounded-lg self-start mb-6 text-sm font-semibold">
+                         {([['text', 'Resumo'], ['meeting', 'Ata da reunião']] as const).map(([mode, label]) => (
+                           <button key={mode} onClick={() => handleSummaryModeChange(mode)}
+                             className={`px-3 py-1.5 rounded-md transition-all ${summaryMode === mode ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}>
+                             {label}
+                           </button>
+                         ))}
+                       </div>
+                     )}
+                     {activeTab === 'summary' && summaryMode === 'meeting' ? (
+                       meetingSummary ? (
+                         <MeetingSummaryView
+                           summary={meetingSummary}
+                           onSeek={handleSeek}
+                           onToggleAction={toggleActionItem}
+                           onExportTasks={handleExportTasks}
+                           onRegenerate={() => loadSummary('meeting', true)}
+                         />
+                       ) : (
+                         <div className="flex-grow flex flex-col items-center justify-center gap-3 text-slate-500">
+                           {meetingError && <p className="text-sm text-red-600">{meetingError}</p>}
+                           <button onClick={() => loadSummary('meeting')} className="flex items-center gap-2 px-4 py-2 bg-blue-50 text-blue-700 rounded-lg font-semibold hover:bg-blue-100 transition-colors">
+                             <RefreshCw size={16} /> Gerar ata
+                           </button>
+                         </div>
+                       )
+                     ) : activeTab === 'summary' && search.pattern && summaryText ? (
+                       <div className="w-full flex-grow overflow-y-auto whitespace-pre-wrap text-slate-800 leading-loose text-lg mb-4">{renderHighlightedText(summaryText)}</div>
+                     ) : (
+                       <textarea value={getCurrentText()} readOnly className="w-full flex-grow text-slate-800 bg-white leading-loose text-lg resize-none focus:outline-none mb-4" />
+                     )}
                      {activeTab === 'transcription' && (
-                       <div className="flex justify-end pt-4 border-t border-slate-100">
+                       <div className="flex items-center justify-between gap-4 pt-4 border-t border-slate-100">
+                         <p className="text-xs text-slate-400">O texto é gerado a partir dos segmentos. Para corrigir, edite-os na aba Acompanhar.</p>
                          <button onClick={handleRefine} className="flex items-center gap-2 px-4 py-2 bg-purple-50 text-purple-700 rounded-lg font-semibold hover:bg-purple-100 transition-colors">
                            <Sparkles size={16}/> Refinar para Leitura Profissional
                          </button>
@@ -465,6 +1046,69 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
             <p className="text-sm text-slate-600 leading-relaxed">{metadata?.description || "Sem descrição disponível."}</p>
          </div>
 
+         {/* Chapters Card */}
+         {segments.length > 0 && (
+           <div className="bg-white rounded-2xl shadow-lg border border-slate-100 p-5">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-semibold text-slate-700 flex items-center gap-2"><ListTree size={16}/> Capítulos</h3>
+                {chapters && (
+                  <button onClick={handleGenerateChapters} disabled={isLoadingChapters} title="Gerar novamente" className="p-1 text-slate-400 hover:text-blue-600 disabled:opacity-50">
+                    <RefreshCw size={14} className={isLoadingChapters ? 'animate-spin' : ''} />
+                  </button>
+                )}
+              </div>
+              {chapters ? (
+                <>
+                  <ol className="space-y-1 max-h-72 overflow-y-auto">
+                    {chapters.map((chapter, i) => (
+                      <li key={i}>
+                        <button onClick={() => handleChapterClick(chapter)}
+                          className={`w-full flex items-start gap-2 text-left text-sm px-2 py-1.5 rounded-lg transition-colors ${i === currentChapter ? 'bg-blue-50 text-blue-700 font-semibold' : 'text-slate-600 hover:bg-slate-50'}`}>
+                          <span className="font-mono text-xs text-blue-500 pt-0.5">{formatTime(chapter.start)}</span>
+                          <span>{chapter.title}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ol>
+                  <div className="flex items-center gap-1 mt-3 pt-3 border-t border-slate-100 text-xs">
+                    <Download size={14} className="text-slate-400 mr-1" />
+                    <button onClick={() => handleChapterExport('youtube')} title="Bloco de capítulos para a descrição do vídeo" className="px-2 py-1 rounded border border-slate-200 bg-white hover:border-blue-300 hover:text-blue-600">YouTube</button>
+                    <button onClick={() => handleChapterExport('vtt')} title="Trilha de capítulos WebVTT" className="px-2 py-1 rounded border border-slate-200 bg-white hover:border-blue-300 hover:text-blue-600">.vtt</button>
+                  </div>
+                </>
+              ) : (
+                <button onClick={handleGenerateChapters} disabled={isLoadingChapters}
+                  className="w-full flex items-center justify-center gap-2 py-2 text-sm font-semibold text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 disabled:opacity-50">
+                  {isLoadingChapters ? <Loader2 size={14} className="animate-spin" /> : <ListTree size={14} />} Detectar capítulos
+                </button>
+              )}
+              {chaptersError && <p className="text-xs text-red-600 mt-2">{chaptersError}</p>}
+           </div>
+         )}
+
+         {/* Speakers Card */}
+         {speakers.length > 0 && (
+           <div className="bg-white rounded-2xl shadow-lg border border-slate-100 p-5">
+              <h3 className="font-semibold text-slate-700 mb-3 flex items-center gap-2">
+                   <Users size={16}/> Locutores
+              </h3>
+              <div className="space-y-2">
+                {speakers.map((speaker, idx) => (
+                  <div key={speaker} className="flex items-center gap-2">
+                    <span className={`w-3 h-3 rounded-full flex-shrink-0 ${SPEAKER_COLORS[idx % SPEAKER_COLORS.length].dot}`}></span>
+                    <input
+                      defaultValue={speaker}
+                      onBlur={(e) => renameSpeaker(speaker, e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                      title="Renomear locutor"
+                      className="flex-grow min-w-0 text-sm text-slate-700 bg-transparent border-b border-transparent hover:border-slate-200 focus:border-blue-400 focus:outline-none py-0.5"
+                    />
+                  </div>
+                ))}
+              </div>
+           </div>
+         )}
+
          {/* Notes Card */}
          <div className="bg-white rounded-2xl shadow-lg border border-slate-100 overflow-hidden flex flex-col h-[400px]">
             <div className="bg-slate-50 px-5 py-3 border-b border-slate-100 flex justify-between items-center">
@@ -473,7 +1117,7 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
             </div>
             <div className="flex-grow overflow-y-auto p-4 space-y-3">
                {notes.map((note, idx) => (
-                 <div key={idx} className="bg-yellow-50/50 border border-yellow-100 rounded-lg p-3 group">
+                 <div key={idx} className={`bg-yellow-50/50 border rounded-lg p-3 group ${countMatches(note.text, search.pattern) > 0 ? 'border-yellow-400 ring-2 ring-yellow-200' : 'border-yellow-100'}`}>
                     <div className="flex justify-between items-start mb-2">
                        <button onClick={() => handleSeek(note.timestamp)} className="text-xs font-mono font-bold text-blue-600 hover:underline flex items-center gap-1"><PlayCircle size={10} />{formatTime(note.timestamp)}</button>
                        <button onClick={() => removeNote(idx)} className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100"><X size={12} /></button>
@@ -493,6 +1137,13 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
   );
 };
 
+// Último segmento que começa até `time` (citações usam segundos inteiros)
+const findSegmentAt = (segments: TranscriptionSegment[], time: number): number => {
+  let found = -1;
+  segments.forEach((seg, i) => { if (Math.floor(seg.start) <= time) found = i; });
+  return found;
+};
+
 const formatTime = (seconds: number): string => {
   if (isNaN(seconds)) return "00:00";
   const mins = Math.floor(seconds / 60);
@@ -500,10 +1151,17 @@ const formatTime = (seconds: number): string => {
   return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
 };
 
-const formatSRTTime = (seconds: number) => {
-  const date = new Date(0);
-  date.setMilliseconds(seconds * 1000);
-  return date.toISOString().substr(11, 12).replace('.', ',');
-};
+// Paleta por locutor (classes completas para o Tailwind enxergar)
+const SPEAKER_COLORS = [
+  { border: 'border-l-blue-400', badge: 'bg-blue-100 text-blue-700', dot: 'bg-blue-400' },
+  { border: 'border-l-rose-400', badge: 'bg-rose-100 text-rose-700', dot: 'bg-rose-400' },
+  { border: 'border-l-emerald-400', badge: 'bg-emerald-100 text-emerald-700', dot: 'bg-emerald-400' },
+  { border: 'border-l-amber-400', badge: 'bg-amber-100 text-amber-700', dot: 'bg-amber-400' },
+  { border: 'border-l-purple-400', badge: 'bg-purple-100 text-purple-700', dot: 'bg-purple-400' },
+  { border: 'border-l-cyan-400', badge: 'bg-cyan-100 text-cyan-700', dot: 'bg-cyan-400' },
+];
+
+const getSpeakers = (segments: TranscriptionSegment[]): string[] =>
+  segments.reduce<string[]>((acc, seg) => (seg.speaker && !acc.includes(seg.speaker) ? [...acc, seg.speaker] : acc), []);
 
 export default TranscriptionDisplay;
\ No newline at end of file
@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut } from 'lucide-react';
+import { TranscriptionSegment } from '../types';
+import { Waveform, peakInRange } from '../services/waveform';
+import { setSegmentEdge } from '../services/segmentEditor';
+
+type Edge = 'start' | 'end';
+
+interface WaveformTimelineProps {
+  waveform: Waveform;
+  segments: TranscriptionSegment[];
+  currentTime: number;
+  onSeek: (time: number) => void;
+  // Chamado uma vez ao soltar a borda (um passo no desfazer)
+  onEdgeChange: (index: number, edge: Edge, time: number) => void;
+}
+
+const HEIGHT = 96;
+// Zoom máximo (pixels por segundo) e fator de cada clique
+const MAX_PIXELS_PER_SECOND = 200;
+const ZOOM_STEP = 2;
+// Margem para desenhar regiões parcialmente visíveis
+const OVERSCAN_PX = 50;
+
+/**
+ * Forma de onda com os segmentos como regiões. O canvas cobre só a parte
+ * visível, então o zoom não depende do tamanho do áudio.
+ */
+const WaveformTimeline: React.FC<WaveformTimelineProps> = ({ waveform, segments, currentTime, onSeek, onEdgeChange }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [viewWidth, setViewWidth] = useState(0);
+  const [scrollLeft, setScrollLeft] = useState(0);
+  const [zoom, setZoom] = useState(1);
+  // Borda sendo arrastada e o tempo atual do arraste (prévia)
+  const [dragTarget, setDragTarget] = useState<{ index: number, edge: Edge } | null>(null);
+  const [dragTime, setDragTime] = useState(0);
+
+  const duration = waveform.duration;
+  const fitScale = viewWidth > 0 && duration > 0 ? viewWidth / duration : 0;
+  const pxPerSecond = fitScale * zoom;
+  const maxZoom = fitScale > 0 ? Math.max(1, MAX_PIXELS_PER_SECOND / fitScale) : 1;
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setViewWidth(element.clientWidth));
+    observer.observe(element);
+    setViewWidth(element.clientWidth);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || viewWidth === 0 || pxPerSecond === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = viewWidth * ratio;
+    canvas.height = HEIGHT * ratio;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, viewWidth, HEIGHT);
+    const middle = HEIGHT / 2;
+    for (let x = 0; x < viewWidth; x++) {
+      const from = (scrollLeft + x) / pxPerSecond;
+      if (from > duration) break;
+      const height = Math.max(1, peakInRange(waveform, from, (scrollLeft + x + 1) / pxPerSecond) * (middle - 4));
+      ctx.fillStyle = from < currentTime ? '#3b82f6' : '#cbd5e1';
+      ctx.fillRect(x, middle - height, 1, height * 2);
+    }
+  }, [waveform, viewWidth, scrollLeft, pxPerSecond, currentTime, duration]);
+
+  // Com zoom, acompanha o player quando ele sai da área visível
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element || dragTarget || zoom === 1) return;
+    const x = currentTime * pxPerSecond;
+    if (x < element.scrollLeft || x > element.scrollLeft + viewWidth) element.scrollLeft = x - viewWidth * 0.1;
+  }, [currentTime, pxPerSecond, viewWidth, zoom, dragTarget]);
+
+  // Ao mudar o zoom (e só então), centraliza no ponto em reprodução
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (element) element.scrollLeft = currentTime * pxPerSecond - viewWidth / 2;
+  }, [zoom]);
+
+  const timeAt = (clientX: number): number => {
+    const element = scrollRef.current;
+    if (!element || pxPerSecond === 0) return 0;
+    const rect = element.getBoundingClientRect();
+    return Math.min(duration, Math.max(0, (clientX - rect.left + element.scrollLeft) / pxPerSecond));
+  };
+
+  // Acompanha o mouse na janela inteira enquanto a borda está presa
+  useEffect(() => {
+    if (!dragTarget) return;
+    let time = segments[dragTarget.index][dragTarget.edge];
+    const handleMove = (e: MouseEvent) => {
+      time = timeAt(e.clientX);
+      setDragTime(time);
+    };
+    const handleUp = () => {
+      onEdgeChange(dragTarget.index, dragTarget.edge, time);
+      setDragTarget(null);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [dragTarget]);
+
+  const startDrag = (e: React.MouseEvent, index: number, edge: Edge) => {
+    e.stopPropagation();
+    e.preventDefault();
+    setDragTime(segments[index][edge]);
+    setDragTarget({ index, edge });
+  };
+
+  // Prévia do arraste com os mesmos limites aplicados ao soltar
+  const shown = dragTarget ? setSegmentEdge(segments, dragTarget.index, dragTarget.edge, dragTime) : segments;
+  const visibleFrom = scrollLeft - OVERSCAN_PX;
+  const visibleTo = scrollLeft + viewWidth + OVERSCAN_PX;
+
+  return (
+    <div className="bg-white border-b border-slate-100 px-6 py-3 no-print">
+      <div className="flex items-center justify-between mb-2 text-xs text-slate-400">
+        <span>Clique para ouvir · arraste as bordas de um segmento para ajustar o tempo</span>
+        <div className="flex items-center gap-1">
+          <button onClick={() => setZoom(z => Math.max(1, z / ZOOM_STEP))} disabled={zoom <= 1} title="Diminuir zoom"
+            className="p-1 rounded hover:bg-slate-100 hover:text-blue-600 disabled:opacity-40 disabled:pointer-events-none"><ZoomOut size={14} /></button>
+          <span className="font-mono w-10 text-center">{Math.round(zoom * 100)}%</span>
+          <button onClick={() => setZoom(z => Math.min(maxZoom, z * ZOOM_STEP))} disabled={zoom >= maxZoom} title="Aumentar zoom"
+            className="p-1 rounded hover:bg-slate-100 hover:text-blue-600 disabled:opacity-40 disabled:pointer-events-none"><ZoomIn size={14} /></button>
+        </div>
+      </div>
+      {/* Clique na própria caixa é na barra de rolagem, não na onda */}
+      <div ref={scrollRef} onScroll={(e) => setScrollLeft(e.currentTarget.scrollLeft)}
+        onMouseDown={(e) => { if (e.button === 0 && e.target !== e.currentTarget) onSeek(timeAt(e.clientX)); }}
+        className={`relative overflow-x-auto overflow-y-hidden rounded-lg bg-slate-50 ${dragTarget ? 'cursor-ew-resize' : 'cursor-pointer'}`}>
+        <div className="relative" style={{ width: duration * pxPerSecond || '100%', height: HEIGHT }}>
+          <canvas ref={canvasRef} className="sticky left-0 block" style={{ width: viewWidth, height: HEIGHT }} />
+          {shown.map((seg, i) => {
+            const left = seg.start * pxPerSecond;
+            const width = Math.max(1, (seg.end - seg.start) * pxPerSecond);
+            if (left + width < visibleFrom || left > visibleTo) return null;
+            const isActive = currentTime >= seg.start && currentTime <= seg.end;
+            return (
+              <div key={i} title={seg.text} style={{ left, width }}
+                className={`absolute top-0 bottom-0 border-x ${isActive ? 'bg-blue-500/20 border-blue-500' : seg.issue ? 'bg-amber-400/15 border-amber-400' : 'bg-blue-500/5 border-blue-300/60'}`}>
+                <span onMouseDown={(e) => startDrag(e, i, 'start')} className="absolute -left-1 top-0 bottom-0 w-2 cursor-ew-resize hover:bg-blue-500/40" />
+                <span onMouseDown={(e) => startDrag(e, i, 'end')} className="absolute -right-1 top-0 bottom-0 w-2 cursor-ew-resize hover:bg-blue-500/40" />
+              </div>
+            );
+          })}
+          <div className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none" style={{ left: currentTime * pxPerSecond }} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WaveformTimeline;
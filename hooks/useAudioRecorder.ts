@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type RecorderState = 'idle' | 'recording' | 'paused';
+
+// Intervalo em que o MediaRecorder entrega pedaços
+const TIMESLICE_MS = 1000;
+// Tamanho dos blocos PCM entregues a `onSamples`
+const PCM_BUFFER_SIZE = 4096;
+
+const pickMimeType = (): string => {
+  const candidates = ['audio/ogg;codecs=opus', 'audio/webm;codecs=opus', 'audio/webm', 'audio/mp4'];
+  return candidates.find(type => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type)) || '';
+};
+
+/**
+ * Grava o microfone com MediaRecorder, expondo nível de entrada (0 a 1),
+ * tempo decorrido (sem contar pausas) e pausa/retomada. `onSamples` recebe o
+ * áudio cru enquanto grava (ex: transcrição ao vivo sem decodificar a gravação).
+ */
+export const useAudioRecorder = (onSamples?: (samples: Float32Array, sampleRate: number) => void) => {
+  const [state, setState] = useState<RecorderState>('idle');
+  const [elapsed, setElapsed] = useState(0);
+  const [level, setLevel] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioCtxRef = useRef<AudioContext | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const frameRef = useRef<number>(0);
+  // Tempo acumulado antes da última retomada + instante da retomada
+  const accumulatedRef = useRef(0);
+  const resumedAtRef = useRef(0);
+  const onSamplesRef = useRef(onSamples);
+  onSamplesRef.current = onSamples;
+
+  const cleanup = useCallback(() => {
+    cancelAnimationFrame(frameRef.current);
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    audioCtxRef.current?.close();
+    streamRef.current = null;
+    audioCtxRef.current = null;
+    recorderRef.current = null;
+    setLevel(0);
+  }, []);
+
+  useEffect(() => cleanup, [cleanup]);
+
+  const start = useCallback(async () => {
+    setError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      streamRef.current = stream;
+
+      // Medidor de nível via AnalyserNode (RMS do sinal)
+      const AudioCtx = window.AudioContext || (window as any).webkitAudioContext;
+      const ctx: AudioContext = new AudioCtx();
+      const analyser = ctx.createAnalyser();
+      analyser.fftSize = 1024;
+      const source = ctx.createMediaStreamSource(stream);
+      source.connect(analyser);
+      audioCtxRef.current = ctx;
+      const samples = new Float32Array(analyser.fftSize);
+
+      // Amostras PCM só do que foi gravado (fora das pausas); a saída fica muda
+      const processor = ctx.createScriptProcessor(PCM_BUFFER_SIZE, 1, 1);
+      processor.onaudioprocess = (e) => {
+        if (recorderRef.current?.state !== 'recording') return;
+        onSamplesRef.current?.(new Float32Array(e.inputBuffer.getChannelData(0)), ctx.sampleRate);
+      };
+      source.connect(processor);
+      processor.connect(ctx.destination);
+
+      const tick = () => {
+        analyser.getFloatTimeDomainData(samples);
+        const rms = Math.sqrt(samples.reduce((sum, v) => sum + v * v, 0) / samples.length);
+        setLevel(Math.min(1, rms * 4));
+        if (recorderRef.current?.state === 'recording') {
+          setElapsed(accumulatedRef.current + (performance.now() - resumedAtRef.current) / 1000);
+        }
+        frameRef.current = requestAnimationFrame(tick);
+      };
+
+      const mimeType = pickMimeType();
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      chunksRef.current = [];
+      recorder.ondataavailable = (e) => { if (e.data.size > 0) chunksRef.current.push(e.data); };
+      recorder.start(TIMESLICE_MS);
+      recorderRef.current = recorder;
+
+      accumulatedRef.current = 0;
+      resumedAtRef.current = performance.now();
+      setElapsed(0);
+      setState('recording');
+      tick();
+    } catch (err) {
+      console.error(err);
+      setError("Não foi possível acessar o microfone. Verifique as permissões do navegador.");
+      cleanup();
+      setState('idle');
+    }
+  }, [cleanup]);
+
+  const pause = useCallback(() => {
+    if (recorderRef.current?.state !== 'recording') return;
+    recorderRef.current.pause();
+    accumulatedRef.current += (performance.now() - resumedAtRef.current) / 1000;
+    setElapsed(accumulatedRef.current);
+    setState('paused');
+  }, []);
+
+  const resume = useCallback(() => {
+    if (recorderRef.current?.state !== 'paused') return;
+    recorderRef.current.resume();
+    resumedAtRef.current = performance.now();
+    setState('recording');
+  }, []);
+
+  /**
+   * Áudio gravado até agora (os pedaços juntos formam um arquivo válido).
+   */
+  const getRecordedBlob = useCallback((): Blob | null => {
+    if (chunksRef.current.length === 0) return null;
+    return new Blob(chunksRef.current, { type: chunksRef.current[0].type || recorderRef.current?.mimeType || 'audio/webm' });
+  }, []);
+
+  /**
+   * Encerra a gravação e devolve o arquivo final.
+   */
+  const stop = useCallback((): Promise<File | null> => {
+    const recorder = recorderRef.current;
+    if (!recorder) return Promise.resolve(null);
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        const blob = getRecordedBlob();
+        cleanup();
+        setState('idle');
+        if (!blob) { resolve(null); return; }
+        const ext = blob.type.includes('ogg') ? 'ogg' : blob.type.includes('mp4') ? 'm4a' : 'webm';
+        const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+        resolve(new File([blob], `gravacao-${stamp}.${ext}`, { type: blob.type }));
+      };
+      recorder.stop();
+    });
+  }, [cleanup, getRecordedBlob]);
+
+  return { state, elapsed, level, error, start, pause, resume, stop, getRecordedBlob };
+};
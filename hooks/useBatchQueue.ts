@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { TranscriptionStatus, TranscriptionResponse, LibraryEntry, PromptProfile } from '../types';
+import { transcribeAudio } from '../services/transcriptionService';
+import { saveTranscription } from '../services/libraryService';
+import { getActiveProfile } from '../services/profileService';
+
+export interface BatchJob {
+  id: string;
+  file: File;
+  language?: string;
+  // Perfil ativo no momento em que o arquivo entrou na fila
+  profile?: PromptProfile;
+  // IDLE = na fila, PROCESSING = em andamento, COMPLETED/ERROR = finalizado
+  status: TranscriptionStatus;
+  progress: number; // 0 a 1
+  error?: string;
+  result?: TranscriptionResponse;
+  entry?: LibraryEntry;
+}
+
+export const DEFAULT_CONCURRENCY = 2;
+
+const CANCELLED_MESSAGE = "Cancelado pelo usuário.";
+
+/**
+ * Fila de transcrição em lote: processa até `concurrency` arquivos por vez
+ * e salva cada resultado na biblioteca.
+ */
+export const useBatchQueue = () => {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+
+  // Controller da tentativa em andamento de cada job; resultados de tentativas canceladas são descartados
+  const runningRef = useRef(new Map<string, AbortController>());
+
+  const updateJob = useCallback((id: string, patch: Partial<BatchJob>) => {
+    setJobs(prev => prev.map(job => job.id === id ? { ...job, ...patch } : job));
+  }, []);
+
+  const runJob = useCallback(async (job: BatchJob, controller: AbortController) => {
+    const isCurrent = () => runningRef.current.get(job.id) === controller && !controller.signal.aborted;
+    try {
+      const response = await transcribeAudio(job.file, {
+        language: job.language,
+        profile: job.profile,
+        signal: controller.signal,
+        onProgress: (event) => { if (isCurrent()) updateJob(job.id, { progress: event.fraction }); }
+      });
+      if (!isCurrent()) return;
+      let entry: LibraryEntry | undefined;
+      try {
+        entry = await saveTranscription(response, job.file);
+      } catch (error) {
+        console.error("Erro ao salvar na biblioteca:", error);
+      }
+      if (!isCurrent()) return;
+      updateJob(job.id, { status: TranscriptionStatus.COMPLETED, progress: 1, result: response, entry });
+    } catch (error: any) {
+      if (!isCurrent()) return;
+      console.error(error);
+      updateJob(job.id, { status: TranscriptionStatus.ERROR, error: error.message || "Ocorreu um erro inesperado ao processar o arquivo." });
+    } finally {
+      if (isCurrent()) runningRef.current.delete(job.id);
+    }
+  }, [updateJob]);
+
+  // Inicia jobs da fila sempre que houver vaga
+  useEffect(() => {
+    const running = jobs.filter(job => job.status === TranscriptionStatus.PROCESSING).length;
+    const next = jobs
+      .filter(job => job.status === TranscriptionStatus.IDLE && !runningRef.current.has(job.id))
+      .slice(0, Math.max(0, concurrency - running));
+    if (next.length === 0) return;
+
+    const controllers = next.map(job => {
+      const controller = new AbortController();
+      runningRef.current.set(job.id, controller);
+      return controller;
+    });
+    setJobs(prev => prev.map(job => next.some(n => n.id === job.id) ? { ...job, status: TranscriptionStatus.PROCESSING } : job));
+    next.forEach((job, i) => runJob(job, controllers[i]));
+  }, [jobs, concurrency, runJob]);
+
+  const enqueue = useCallback((files: File[], language?: string) => {
+    const profile = getActiveProfile();
+    const added = files.map<BatchJob>(file => ({
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      file,
+      language,
+      profile,
+      status: TranscriptionStatus.IDLE,
+      progress: 0
+    }));
+    setJobs(prev => [...prev, ...added]);
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    setJobs(prev => prev.map(job => job.id === id && job.status === TranscriptionStatus.ERROR
+      ? { ...job, status: TranscriptionStatus.IDLE, progress: 0, error: undefined }
+      : job));
+  }, []);
+
+  const abortRun = (id: string) => {
+    runningRef.current.get(id)?.abort();
+    runningRef.current.delete(id);
+  };
+
+  const cancel = useCallback((id: string) => {
+    abortRun(id);
+    setJobs(prev => prev.map(job => job.id === id && (job.status === TranscriptionStatus.IDLE || job.status === TranscriptionStatus.PROCESSING)
+      ? { ...job, status: TranscriptionStatus.ERROR, error: CANCELLED_MESSAGE }
+      : job));
+  }, []);
+
+  const cancelAll = useCallback(() => {
+    runningRef.current.forEach(controller => controller.abort());
+    runningRef.current.clear();
+    setJobs(prev => prev.map(job => job.status === TranscriptionStatus.IDLE || job.status === TranscriptionStatus.PROCESSING
+      ? { ...job, status: TranscriptionStatus.ERROR, error: CANCELLED_MESSAGE }
+      : job));
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    abortRun(id);
+    setJobs(prev => prev.filter(job => job.id !== id));
+  }, []);
+
+  // Limpa apenas os jobs finalizados
+  const clearFinished = useCallback(() => {
+    setJobs(prev => prev.filter(job => job.status === TranscriptionStatus.IDLE || job.status === TranscriptionStatus.PROCESSING));
+  }, []);
+
+  const isFinished = jobs.length > 0 && jobs.every(job => job.status === TranscriptionStatus.COMPLETED || job.status === TranscriptionStatus.ERROR);
+
+  return { jobs, concurrency, setConcurrency, enqueue, retry, cancel, cancelAll, remove, clearFinished, isFinished };
+};
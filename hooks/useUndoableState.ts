@@ -0,0 +1,49 @@
+import { useCallback, useState } from 'react';
+
+// Limite de passos guardados no histórico de desfazer
+const MAX_HISTORY = 100;
+
+interface UndoableState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+/**
+ * useState com histórico de desfazer/refazer. Cada chamada de `set`
+ * cria um novo passo no histórico.
+ */
+export const useUndoableState = <T,>(initial: T) => {
+  const [state, setState] = useState<UndoableState<T>>({ past: [], present: initial, future: [] });
+
+  const set = useCallback((next: T | ((prev: T) => T)) => {
+    setState(prev => {
+      const value = typeof next === 'function' ? (next as (prev: T) => T)(prev.present) : next;
+      if (Object.is(value, prev.present)) return prev;
+      return { past: [...prev.past, prev.present].slice(-MAX_HISTORY), present: value, future: [] };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(prev => {
+      if (prev.past.length === 0) return prev;
+      return { past: prev.past.slice(0, -1), present: prev.past[prev.past.length - 1], future: [prev.present, ...prev.future] };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(prev => {
+      if (prev.future.length === 0) return prev;
+      return { past: [...prev.past, prev.present], present: prev.future[0], future: prev.future.slice(1) };
+    });
+  }, []);
+
+  return {
+    value: state.present,
+    set,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0
+  };
+};
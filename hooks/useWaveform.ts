@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { Waveform, loadWaveform } from '../services/waveform';
+
+/**
+ * Decodifica o áudio (só quando `enabled`) e calcula a forma de onda.
+ * Um novo arquivo descarta o resultado anterior.
+ */
+export const useWaveform = (audio: Blob | null, enabled: boolean) => {
+  const [waveform, setWaveform] = useState<Waveform | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setWaveform(null);
+    setError(null);
+  }, [audio]);
+
+  useEffect(() => {
+    if (!audio || !enabled || waveform) return;
+    let cancelled = false;
+    setIsLoading(true);
+    loadWaveform(audio)
+      .then(result => { if (!cancelled) setWaveform(result); })
+      .catch(err => {
+        console.error("Erro ao decodificar o áudio:", err);
+        if (!cancelled) setError("Não foi possível ler o áudio para desenhar a forma de onda.");
+      })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => {
+      cancelled = true;
+      setIsLoading(false);
+    };
+  }, [audio, enabled, waveform]);
+
+  return { waveform, isLoading, error };
+};
@@ -0,0 +1,105 @@
+// Utilitários para dividir áudios longos em janelas menores antes de enviar ao Gemini.
+
+// Taxa usada na reamostragem (voz não precisa de mais que 16kHz)
+const TARGET_SAMPLE_RATE = 16000;
+
+export interface AudioWindow {
+  start: number;    // início da janela no áudio original (segundos)
+  duration: number; // duração da janela (segundos)
+  blob: Blob;       // WAV mono 16-bit da janela
+}
+
+/**
+ * Decodifica o arquivo e devolve o áudio mono reamostrado para 16kHz.
+ */
+export const decodeAudioFile = async (file: Blob): Promise<AudioBuffer> => {
+  const arrayBuffer = await file.arrayBuffer();
+  const AudioCtx = window.AudioContext || (window as any).webkitAudioContext;
+  const ctx: AudioContext = new AudioCtx();
+  try {
+    const decoded = await ctx.decodeAudioData(arrayBuffer);
+    // Mixdown + reamostragem via OfflineAudioContext
+    const length = Math.ceil(decoded.duration * TARGET_SAMPLE_RATE);
+    const offline = new OfflineAudioContext(1, length, TARGET_SAMPLE_RATE);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+    return await offline.startRendering();
+  } finally {
+    ctx.close();
+  }
+};
+
+/**
+ * Codifica amostras PCM float em um WAV 16-bit mono.
+ */
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, str: string) => {
+    for (let i = 0; i < str.length; i++) view.setUint8(offset + i, str.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);               // PCM
+  view.setUint16(22, 1, true);               // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);  // byte rate
+  view.setUint16(32, 2, true);               // block align
+  view.setUint16(34, 16, true);              // bits por amostra
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  let offset = 44;
+  for (let i = 0; i < samples.length; i++, offset += 2) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+/**
+ * Recorta o trecho [start, end) do áudio decodificado como WAV.
+ */
+export const encodeRange = (audio: AudioBuffer, start: number, end: number): Blob => {
+  const rate = audio.sampleRate;
+  return encodeWav(audio.getChannelData(0).subarray(Math.floor(start * rate), Math.floor(end * rate)), rate);
+};
+
+/**
+ * Divide o áudio em janelas sobrepostas de `windowSeconds`, com `overlapSeconds`
+ * de sobreposição entre janelas vizinhas.
+ */
+export const splitIntoWindows = (audio: AudioBuffer, windowSeconds: number, overlapSeconds: number): AudioWindow[] => {
+  const step = windowSeconds - overlapSeconds;
+  const windows: AudioWindow[] = [];
+
+  for (let start = 0; start < audio.duration; start += step) {
+    const end = Math.min(audio.duration, start + windowSeconds);
+    windows.push({ start, duration: end - start, blob: encodeRange(audio, start, end) });
+    if (end >= audio.duration) break;
+  }
+  return windows;
+};
+
+/**
+ * Lê um Blob como base64 puro (sem o prefixo data URL).
+ */
+export const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      if (typeof reader.result === 'string') {
+        resolve(reader.result.split(',')[1]);
+      } else {
+        reject(new Error("Falha ao ler o arquivo."));
+      }
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
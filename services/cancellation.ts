@@ -0,0 +1,27 @@
+// Cancelamento de jobs via AbortSignal, compartilhado pelos provedores e pela interface.
+
+/**
+ * Erro lançado quando o job é cancelado (mesmo formato do fetch abortado).
+ */
+export const createAbortError = (): DOMException => new DOMException("Operação cancelada.", 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  (error as { name?: string } | null)?.name === 'AbortError';
+
+/**
+ * Interrompe o fluxo se o sinal já foi abortado.
+ */
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+/**
+ * Espera `ms` milissegundos, rejeitando imediatamente se o sinal for abortado.
+ */
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) { reject(createAbortError()); return; }
+    const onAbort = () => { clearTimeout(timer); reject(createAbortError()); };
+    const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,42 @@
+import { Chapter, TranscriptionSegment } from '../types';
+
+// Capítulos gerados pelo modelo: ordenação, limpeza e busca pelo tempo.
+
+// Capítulos mais próximos que isto do anterior são descartados
+const MIN_CHAPTER_SECONDS = 10;
+// Alvo de duração de cada capítulo ao pedir a divisão ao modelo
+const TARGET_CHAPTER_SECONDS = 5 * 60;
+const MAX_CHAPTERS = 20;
+
+/**
+ * Quantos capítulos pedir para uma gravação desta duração.
+ */
+export const suggestChapterCount = (duration: number): number =>
+  Math.max(2, Math.min(MAX_CHAPTERS, Math.round(duration / TARGET_CHAPTER_SECONDS)));
+
+/**
+ * Ordena, remove títulos vazios e capítulos colados no anterior. O primeiro
+ * capítulo começa junto com a transcrição, para o sumário cobrir tudo.
+ */
+export const normalizeChapters = (chapters: Chapter[], segments: TranscriptionSegment[]): Chapter[] => {
+  const sorted = chapters
+    .map(chapter => ({ title: chapter.title.trim(), start: chapter.start }))
+    .filter(chapter => chapter.title && Number.isFinite(chapter.start))
+    .sort((a, b) => a.start - b.start);
+  const result: Chapter[] = [];
+  sorted.forEach(chapter => {
+    const last = result[result.length - 1];
+    if (!last || chapter.start - last.start >= MIN_CHAPTER_SECONDS) result.push(chapter);
+  });
+  if (result.length > 0) result[0] = { ...result[0], start: Math.min(result[0].start, segments[0]?.start ?? 0) };
+  return result;
+};
+
+/**
+ * Índice do capítulo em andamento no tempo informado (-1 antes do primeiro).
+ */
+export const findChapterAt = (chapters: Chapter[], time: number): number => {
+  let found = -1;
+  chapters.forEach((chapter, i) => { if (chapter.start <= time) found = i; });
+  return found;
+};
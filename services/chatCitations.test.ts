@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { buildChatContext, formatCitation, splitCitations } from './chatCitations';
+
+describe('formatCitation', () => {
+  it('usa mm:ss e inclui as horas quando passa de uma', () => {
+    expect(formatCitation(135.9)).toBe('[02:15]');
+    expect(formatCitation(3725)).toBe('[1:02:05]');
+  });
+
+  it('marca a fonte quando há várias transcrições', () => {
+    expect(formatCitation(220, 2)).toBe('[T2 03:40]');
+  });
+});
+
+describe('buildChatContext', () => {
+  it('um segmento por linha, com tempo e locutor', () => {
+    expect(buildChatContext([
+      { start: 0, end: 2, text: 'Olá.', speaker: 'Ana' },
+      { start: 65, end: 70, text: 'Tudo bem?' }
+    ])).toBe('[00:00] Ana: Olá.\n[01:05] Tudo bem?');
+  });
+});
+
+describe('splitCitations', () => {
+  it('separa texto e citações clicáveis', () => {
+    expect(splitCitations('Foi decidido [02:15] no início.')).toEqual([
+      { type: 'text', text: 'Foi decidido ' },
+      { type: 'citation', text: '02:15', seconds: 135 },
+      { type: 'text', text: ' no início.' }
+    ]);
+  });
+
+  it('aceita listas de citações e a fonte de cada uma', () => {
+    expect(splitCitations('Ver [T1 00:10, T3 1:02:05].')).toEqual([
+      { type: 'text', text: 'Ver ' },
+      { type: 'citation', text: 'T1 00:10', seconds: 10, source: 1 },
+      { type: 'citation', text: 'T3 1:02:05', seconds: 3725, source: 3 },
+      { type: 'text', text: '.' }
+    ]);
+  });
+
+  it('mantém colchetes que não são tempos', () => {
+    expect(splitCitations('Veja [nota] acima')).toEqual([{ type: 'text', text: 'Veja [nota] acima' }]);
+  });
+});
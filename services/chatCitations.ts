@@ -0,0 +1,47 @@
+import { TranscriptionSegment } from '../types';
+import { parseTimestamp } from './importService';
+
+// Citações no chat: cada segmento vai para o modelo com o tempo entre colchetes
+// ("[02:15]", ou "[T2 02:15]" quando há várias transcrições) e o modelo repete
+// essa marca ao usar o trecho na resposta.
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+export const formatCitation = (seconds: number, source?: number): string => {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const clock = `${pad(Math.floor(total / 60) % 60)}:${pad(total % 60)}`;
+  return `[${source ? `T${source} ` : ''}${hours > 0 ? `${hours}:${clock}` : clock}]`;
+};
+
+/**
+ * Contexto do chat: um segmento por linha, com tempo e locutor.
+ */
+export const buildChatContext = (segments: TranscriptionSegment[]): string =>
+  segments.map(seg => `${formatCitation(seg.start)} ${seg.speaker ? `${seg.speaker}: ` : ''}${seg.text}`).join('\n');
+
+export type ChatPart =
+  | { type: 'text', text: string }
+  | { type: 'citation', text: string, seconds: number, source?: number }; // source: N de "TN" (a partir de 1)
+
+const ITEM = String.raw`(?:T\d+\s+)?\d{1,2}:\d{2}(?::\d{2})?`;
+// Aceita "[02:15]", "[T2 02:15]" e listas como "[02:15, T3 03:40]"
+const CITATION_PATTERN = new RegExp(String.raw`\[(${ITEM}(?:\s*[,;]\s*${ITEM})*)\]`, 'g');
+
+/**
+ * Separa o texto da resposta em trechos comuns e citações clicáveis.
+ */
+export const splitCitations = (text: string): ChatPart[] => {
+  const parts: ChatPart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    if (match.index > last) parts.push({ type: 'text', text: text.slice(last, match.index) });
+    match[1].split(/\s*[,;]\s*/).forEach(item => {
+      const [, source, time] = item.match(/^(?:T(\d+)\s+)?(.+)$/)!;
+      parts.push({ type: 'citation', text: item, seconds: parseTimestamp(time), ...(source ? { source: Number(source) } : {}) });
+    });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) parts.push({ type: 'text', text: text.slice(last) });
+  return parts;
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { createAbortError } from './cancellation';
+import { TranscriptionError, getErrorMessage, toTranscriptionError } from './errors';
+
+const codeOf = (error: unknown) => (toTranscriptionError(error) as TranscriptionError).code;
+
+describe('toTranscriptionError', () => {
+  it('classifica pelas mensagens e status do SDK', () => {
+    expect(codeOf(new Error('API key not valid. Please pass a valid API key.'))).toBe('missing_api_key');
+    expect(codeOf({ status: 401, message: 'Unauthorized' })).toBe('missing_api_key');
+    expect(codeOf({ status: 413, message: 'Request Entity Too Large' })).toBe('payload_too_large');
+    expect(codeOf(new Error('Unsupported MIME type: audio/x-foo'))).toBe('unsupported_media');
+    expect(codeOf(new Error('Response was blocked due to SAFETY'))).toBe('safety_block');
+    expect(codeOf(new Error('falha de rede'))).toBe('unknown');
+  });
+
+  it('lê o tempo de espera das respostas de cota', () => {
+    const error = toTranscriptionError({ status: 429, message: 'RESOURCE_EXHAUSTED. Please retry in 32.5s.' }) as TranscriptionError;
+    expect(error.code).toBe('quota');
+    expect(error.retryAfterSeconds).toBe(33);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('JSON quebrado vira resposta malformada', () => {
+    const cause = new SyntaxError('Unexpected token');
+    const error = toTranscriptionError(cause) as TranscriptionError;
+    expect(error.code).toBe('malformed_response');
+    expect(error.cause).toBe(cause);
+  });
+
+  it('devolve sem alterar erros já tipados e cancelamentos', () => {
+    const typed = new TranscriptionError('no_captions');
+    const aborted = createAbortError();
+    expect(toTranscriptionError(typed)).toBe(typed);
+    expect(toTranscriptionError(aborted)).toBe(aborted);
+    expect(typed.retryable).toBe(false);
+  });
+});
+
+describe('getErrorMessage', () => {
+  it('usa a mensagem padrão do código', () => {
+    expect(getErrorMessage({ status: 429 })).toBe("Limite de uso da API atingido. Aguarde um pouco antes de tentar de novo.");
+  });
+});
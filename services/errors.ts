@@ -0,0 +1,83 @@
+import { isAbortError } from './cancellation';
+
+// Erros tipados do pipeline: cada código tem uma ação de recuperação na interface.
+
+export type TranscriptionErrorCode =
+  | 'missing_api_key'
+  | 'quota'
+  | 'payload_too_large'
+  | 'unsupported_media'
+  | 'safety_block'
+  | 'malformed_response'
+  | 'no_captions'
+  | 'unknown';
+
+const DEFAULT_MESSAGES: Record<TranscriptionErrorCode, string> = {
+  missing_api_key: "A chave da API do Gemini não foi configurada ou é inválida.",
+  quota: "Limite de uso da API atingido. Aguarde um pouco antes de tentar de novo.",
+  payload_too_large: "O arquivo é grande demais para ser enviado de uma vez.",
+  unsupported_media: "Formato de mídia não suportado pelo modelo.",
+  safety_block: "O conteúdo foi bloqueado pelos filtros de segurança do modelo.",
+  malformed_response: "O modelo devolveu uma resposta em formato inválido.",
+  no_captions: "Não encontramos legendas ou transcrição pública para este vídeo.",
+  unknown: "Ocorreu um erro inesperado ao processar a solicitação."
+};
+
+// Códigos em que repetir a mesma requisição pode dar certo
+const RETRYABLE_CODES: TranscriptionErrorCode[] = ['quota', 'malformed_response', 'unknown'];
+
+export class TranscriptionError extends Error {
+  readonly code: TranscriptionErrorCode;
+  readonly retryAfterSeconds?: number;
+
+  constructor(code: TranscriptionErrorCode, message?: string, options: { cause?: unknown, retryAfterSeconds?: number } = {}) {
+    super(message || DEFAULT_MESSAGES[code], { cause: options.cause });
+    this.name = 'TranscriptionError';
+    this.code = code;
+    this.retryAfterSeconds = options.retryAfterSeconds;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+}
+
+// "Please retry in 32.5s" / "retryDelay": "32s" nas respostas de cota do Gemini
+const parseRetryAfter = (message: string): number | undefined => {
+  const match = message.match(/retry(?:Delay"?:\s*"|\s+in\s+)(\d+(?:\.\d+)?)s/i);
+  return match ? Math.ceil(Number(match[1])) : undefined;
+};
+
+/**
+ * Classifica um erro qualquer (SDK, rede, JSON) em um TranscriptionError.
+ * Erros de cancelamento são devolvidos sem alteração.
+ */
+export const toTranscriptionError = (error: unknown): Error => {
+  if (error instanceof TranscriptionError || isAbortError(error)) return error as Error;
+  if (error instanceof SyntaxError) return new TranscriptionError('malformed_response', undefined, { cause: error });
+
+  const status = Number((error as { status?: unknown } | null)?.status) || 0;
+  const message = String((error as { message?: unknown } | null)?.message ?? error ?? '');
+
+  if (/API[_ ]?KEY|api key not valid|UNAUTHENTICATED/i.test(message) || status === 401) {
+    return new TranscriptionError('missing_api_key', undefined, { cause: error });
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new TranscriptionError('quota', undefined, { cause: error, retryAfterSeconds: parseRetryAfter(message) });
+  }
+  if (status === 413 || /payload|too large|exceeds the maximum|request size/i.test(message)) {
+    return new TranscriptionError('payload_too_large', undefined, { cause: error });
+  }
+  if (/unsupported (mime|media|file)|mime ?type|invalid audio|unable to process input/i.test(message)) {
+    return new TranscriptionError('unsupported_media', undefined, { cause: error });
+  }
+  if (/SAFETY|PROHIBITED_CONTENT|BLOCKLIST|blocked/i.test(message)) {
+    return new TranscriptionError('safety_block', undefined, { cause: error });
+  }
+  return new TranscriptionError('unknown', undefined, { cause: error });
+};
+
+/**
+ * Mensagem amigável para exibir em qualquer ponto da interface.
+ */
+export const getErrorMessage = (error: unknown): string => toTranscriptionError(error).message;
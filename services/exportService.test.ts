@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { TranscriptionSegment } from '../types';
+import { alignTranslation, buildFileName, buildSubtitleCues, canExportPdf, formatSpeakerTranscript, formatSRTTime, stripMarkdown, toCsv, toMarkdown, toPdf, toSrt, toVtt, toZip } from './exportService';
+
+const segments: TranscriptionSegment[] = [
+  { start: 0, end: 2.5, text: 'Bom dia.', speaker: 'Ana' },
+  { start: 3, end: 65.25, text: 'Vamos <começar>, "pessoal".' }
+];
+const translation: TranscriptionSegment[] = [
+  { start: 0, end: 2.5, text: 'Good morning.' },
+  { start: 3, end: 65.25, text: "Let's start." }
+];
+
+describe('legendas', () => {
+  it('formata os tempos do SRT', () => {
+    expect(formatSRTTime(3725.5)).toBe('01:02:05,500');
+  });
+
+  it('SRT bilíngue com o locutor na primeira linha', () => {
+    expect(toSrt(buildSubtitleCues(segments, 'bilingual', translation))).toBe(
+      '1\n00:00:00,000 --> 00:00:02,500\nAna: Bom dia.\nGood morning.\n\n' +
+      '2\n00:00:03,000 --> 00:01:05,250\nVamos <começar>, "pessoal".\nLet\'s start.\n'
+    );
+  });
+
+  it('WebVTT com tag de voz e texto escapado', () => {
+    const vtt = toVtt(buildSubtitleCues(segments, 'translated', translation), 'Reunião');
+    expect(vtt.split('\n').slice(0, 4)).toEqual(['WEBVTT - Reunião', '', '1', '00:00:00.000 --> 00:00:02.500 line:85% position:50% align:center']);
+    expect(vtt).toContain('<v Ana>Good morning.');
+    expect(toVtt(buildSubtitleCues(segments))).toContain('Vamos &lt;começar&gt;, "pessoal".');
+  });
+
+  it('alinha a tradução pelo início quando os segmentos foram editados', () => {
+    const edited = [{ start: 0, end: 1, text: 'Bom' }, { start: 1, end: 2.5, text: 'dia.' }, segments[1]];
+    expect(alignTranslation(edited, translation).map(seg => seg?.text)).toEqual(['Good morning.', undefined, "Let's start."]);
+  });
+});
+
+describe('legendas com tempos por palavra', () => {
+  // Uma palavra a cada `step` segundos a partir de `start`
+  const timed = (text: string, start = 0, step = 0.3, speaker?: string): TranscriptionSegment => {
+    const words = text.split(' ').map((word, i) => ({ text: word, start: start + i * step, end: start + i * step + step * 0.8 }));
+    return { start, end: words[words.length - 1].end, text, words, ...(speaker ? { speaker } : {}) };
+  };
+
+  it('no máximo duas linhas de até 42 caracteres, contando o locutor', () => {
+    const text = 'uma frase bem comprida que não termina tão cedo porque continua falando de vários assuntos diferentes sem parar nunca';
+    const cues = buildSubtitleCues([timed(text, 0, 0.1, 'Mariana')]);
+    expect(cues.length).toBeGreaterThan(1);
+    cues.forEach(cue => {
+      expect(cue.lines.length).toBeLessThanOrEqual(2);
+      expect(`Mariana: ${cue.lines[0]}`.length).toBeLessThanOrEqual(42);
+      cue.lines.slice(1).forEach(line => expect(line.length).toBeLessThanOrEqual(42));
+    });
+    expect(cues.flatMap(cue => cue.lines).join(' ')).toBe(text);
+    expect(toSrt(cues).split('\n').slice(2, 4)).toEqual([`Mariana: ${cues[0].lines[0]}`, cues[0].lines[1]]);
+  });
+
+  it('termina a legenda no fim de cada frase', () => {
+    const cues = buildSubtitleCues([timed('Bom dia. Tudo bem? Sim!', 2)]);
+    expect(cues.map(cue => cue.lines)).toEqual([['Bom dia.'], ['Tudo bem?'], ['Sim!']]);
+    expect(cues[1].start).toBeCloseTo(2.6);
+    expect(cues[1].end).toBeCloseTo(3.14);
+  });
+
+  it('não passa do tempo máximo de uma legenda', () => {
+    const cues = buildSubtitleCues([timed('devagar quase parando cada palavra leva tempo', 0, 2)]);
+    cues.forEach(cue => expect(cue.end - cue.start).toBeLessThanOrEqual(6));
+    expect(cues.map(cue => cue.lines.join(' '))).toEqual(['devagar quase parando', 'cada palavra leva', 'tempo']);
+  });
+
+  it('traduções continuam com o tempo do segmento', () => {
+    expect(buildSubtitleCues([timed('Bom dia. Tudo bem?')], 'translated', [{ start: 0, end: 1, text: 'Hi.' }])).toHaveLength(1);
+  });
+});
+
+describe('documentos', () => {
+  it('TXT com um parágrafo por turno de fala', () => {
+    expect(formatSpeakerTranscript([...segments, { start: 66, end: 67, text: 'Certo.' }])).toBe(
+      'Ana: Bom dia.\n\nVamos <começar>, "pessoal". Certo.'
+    );
+  });
+
+  it('CSV com BOM e campos escapados', () => {
+    expect(toCsv(segments).split('\r\n')).toEqual([
+      '﻿indice,inicio_s,fim_s,inicio,locutor,texto',
+      '1,0.000,2.500,"00:00:00,000",Ana,Bom dia.',
+      '2,3.000,65.250,"00:00:03,000",,"Vamos <começar>, ""pessoal""."'
+    ]);
+  });
+
+  it('Markdown com título, resumo, transcrição e anotações', () => {
+    const markdown = toMarkdown({ metadata: { title: 'Reunião', description: 'Semanal' }, segments, notes: [{ timestamp: 62, text: 'Revisar' }], summary: 'Tudo certo.' });
+    expect(markdown).toContain('# Reunião\n\n> Semanal\n\n## Resumo\n\nTudo certo.');
+    expect(markdown).toContain('**[00:00]** **Ana:** Bom dia.');
+    expect(markdown).toContain('## Anotações\n\n- **01:02** Revisar');
+  });
+
+  it('resumo sem a marcação Markdown', () => {
+    expect(stripMarkdown('## Pontos principais\n\n- **Prazo** mantido em _março_\n* ver [ata](https://x.y) e `anexo`\n---\n> nota_final')).toBe(
+      'Pontos principais\n\n• Prazo mantido em março\n• ver ata e anexo\n\nnota_final'
+    );
+  });
+
+  it('PDF só para textos em alfabeto latino', () => {
+    const latin = { segments, notes: [], summary: 'Ação – “ok” … 10 €' };
+    expect(canExportPdf(latin)).toBe(true);
+    expect(canExportPdf({ ...latin, segments: [{ start: 0, end: 1, text: 'Привет, мир' }] })).toBe(false);
+    expect(canExportPdf({ ...latin, notes: [{ timestamp: 0, text: '会議' }] })).toBe(false);
+    expect(() => toPdf({ segments: [{ start: 0, end: 1, text: 'مرحبا' }], notes: [] })).toThrow(/alfabetos latinos/);
+  });
+
+  it('nome do arquivo sem caracteres inválidos', () => {
+    expect(buildFileName('Aula: 1/2 *revisão*?', 'srt', 'en')).toBe('Aula 12 revisão_en.srt');
+    expect(buildFileName('  ', 'txt')).toBe('transcricao.txt');
+  });
+});
+
+describe('toZip', () => {
+  it('numera os nomes repetidos', async () => {
+    const blob = await toZip([
+      { name: 'aula.json', content: '{}' },
+      { name: 'aula.json', content: '[]' },
+      { name: 'aula', content: 'x' }
+    ]);
+    const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+    expect(Object.keys(zip.files).sort()).toEqual(['aula', 'aula (2).json', 'aula.json']);
+    expect(await zip.file('aula (2).json')!.async('string')).toBe('[]');
+  });
+});
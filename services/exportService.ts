@@ -0,0 +1,368 @@
+import { Document, Packer, Paragraph, TextRun, HeadingLevel } from 'docx';
+import { jsPDF } from 'jspdf';
+import JSZip from 'jszip';
+import { Chapter, TranscriptionSegment, Metadata, MeetingSummary, Note, TranslationCache, WordTiming } from '../types';
+
+// Geração dos arquivos exportados pelo TranscriptionDisplay (funções puras + download).
+
+export type SubtitleMode = 'original' | 'translated' | 'bilingual';
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  speaker?: string;
+  lines: string[];
+}
+
+// Conteúdo completo usado pelos formatos de documento (Markdown, DOCX, PDF)
+export interface ExportDocument {
+  metadata?: Metadata;
+  category?: string;
+  segments: TranscriptionSegment[];
+  notes: Note[];
+  summary?: string | null;
+}
+
+// JSON do próprio app: tudo que a importação (parseAppJson) sabe ler de volta
+export interface AppJsonDocument extends ExportDocument {
+  language?: string;
+  text: string;
+  translations: TranslationCache;
+  meetingSummary: MeetingSummary | null;
+  chapters: Chapter[] | null;
+}
+
+// Legendas na parte de baixo da tela, centralizadas
+const VTT_CUE_SETTINGS = 'line:85% position:50% align:center';
+// Limites de uma legenda montada palavra a palavra (duas linhas de ~42 caracteres)
+const MAX_LINE_CHARS = 42;
+const MAX_CUE_LINES = 2;
+const MAX_CUE_SECONDS = 6;
+// O que a Helvetica embutida no jsPDF desenha: latim e os símbolos da codificação WinAnsi
+const PDF_SAFE_TEXT = /^[\t\n\r\u0020-\u007E\u00A0-\u00FF\u0152\u0153\u0160\u0161\u0178\u017D\u017E\u0192\u02C6\u02DC\u2013\u2014\u2018-\u201A\u201C-\u201E\u2020-\u2022\u2026\u2030\u2039\u203A\u20AC\u2122]*$/;
+
+export const toAppJson = (doc: AppJsonDocument): string => {
+  const { metadata, category, language, segments, text, notes, translations, summary, meetingSummary, chapters } = doc;
+  return JSON.stringify({ metadata, category, language, segments, text, notes, translations, summary: summary ?? null, meetingSummary, chapters }, null, 2);
+};
+
+// TXT com um parágrafo por turno de fala
+export const formatSpeakerTranscript = (segments: TranscriptionSegment[]): string =>
+  segments.reduce<{ speaker?: string, text: string }[]>((turns, seg) => {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === seg.speaker) last.text += ` ${seg.text}`;
+    else turns.push({ speaker: seg.speaker, text: seg.text });
+    return turns;
+  }, []).map(turn => turn.speaker ? `${turn.speaker}: ${turn.text}` : turn.text).join('\n\n');
+
+export const formatSRTTime = (seconds: number) => {
+  const date = new Date(0);
+  date.setMilliseconds(seconds * 1000);
+  return date.toISOString().substr(11, 12).replace('.', ',');
+};
+
+export const formatVTTTime = (seconds: number) => formatSRTTime(seconds).replace(',', '.');
+
+/**
+ * Tradução correspondente a cada segmento original. Usa o índice quando os
+ * tempos batem; se os segmentos foram editados depois, procura pelo início.
+ */
+export const alignTranslation = (
+  segments: TranscriptionSegment[],
+  translation: TranscriptionSegment[]
+): (TranscriptionSegment | undefined)[] => {
+  const aligned = translation.length === segments.length &&
+    translation.every((seg, i) => seg.start === segments[i].start && seg.end === segments[i].end);
+  if (aligned) return translation;
+  return segments.map(seg => translation.find(t => t.start === seg.start));
+};
+
+/**
+ * Quebra um segmento com tempos por palavra em legendas curtas: cada uma vai
+ * da primeira à última palavra dita (sem o silêncio das pontas), tem até duas
+ * linhas quebradas entre palavras e termina no fim de uma frase ou ao atingir
+ * o tamanho máximo. O "Locutor: " da primeira linha entra na conta.
+ */
+const splitCueByWords = (seg: TranscriptionSegment): SubtitleCue[] => {
+  const prefix = seg.speaker ? seg.speaker.length + 2 : 0;
+  const cues: SubtitleCue[] = [];
+  let current: WordTiming[] = [];
+  let lines: string[] = [];
+  const flush = () => {
+    if (current.length === 0) return;
+    cues.push({ start: current[0].start, end: current[current.length - 1].end, speaker: seg.speaker, lines });
+    current = [];
+    lines = [];
+  };
+  // Põe a palavra na última linha ou abre outra; false quando não cabe na legenda
+  const place = (text: string): boolean => {
+    const last = lines.length - 1;
+    if (last < 0) lines = [text];
+    else if ((last === 0 ? prefix : 0) + lines[last].length + 1 + text.length <= MAX_LINE_CHARS) lines[last] += ` ${text}`;
+    else if (lines.length < MAX_CUE_LINES) lines.push(text);
+    else return false;
+    return true;
+  };
+  seg.words!.forEach(word => {
+    if (current.length > 0 && word.end - current[0].start > MAX_CUE_SECONDS) flush();
+    if (!place(word.text)) {
+      flush();
+      place(word.text);
+    }
+    current.push(word);
+    if (/[.!?]["')\]]*$/.test(word.text)) flush();
+  });
+  flush();
+  return cues;
+};
+
+/**
+ * Monta as legendas mantendo os tempos dos segmentos originais.
+ * No modo bilíngue cada legenda tem a linha original e a traduzida.
+ * Só no texto original, segmentos com tempos por palavra viram legendas mais justas.
+ */
+export const buildSubtitleCues = (
+  segments: TranscriptionSegment[],
+  mode: SubtitleMode = 'original',
+  translation: TranscriptionSegment[] = []
+): SubtitleCue[] => {
+  const translated = alignTranslation(segments, translation);
+  return segments.flatMap((seg, i) => {
+    if (mode === 'original' && seg.words?.length) return splitCueByWords(seg);
+    const target = translated[i]?.text ?? seg.text;
+    const lines = mode === 'original' ? [seg.text] : mode === 'translated' ? [target] : [seg.text, target];
+    return [{ start: seg.start, end: seg.end, speaker: seg.speaker, lines }];
+  });
+};
+
+export const toSrt = (cues: SubtitleCue[]): string =>
+  cues.map((cue, i) => {
+    const [first, ...rest] = cue.lines;
+    const lines = [cue.speaker ? `${cue.speaker}: ${first}` : first, ...rest];
+    return `${i + 1}\n${formatSRTTime(cue.start)} --> ${formatSRTTime(cue.end)}\n${lines.join('\n')}\n`;
+  }).join('\n');
+
+/**
+ * WebVTT com configurações de posicionamento e o locutor como tag de voz (<v>).
+ */
+export const toVtt = (cues: SubtitleCue[], title?: string): string => {
+  const header = title ? `WEBVTT - ${title.replace(/\n/g, ' ')}` : 'WEBVTT';
+  const body = cues.map((cue, i) => {
+    const [first, ...rest] = cue.lines.map(escapeVtt);
+    const lines = [cue.speaker ? `<v ${escapeVtt(cue.speaker)}>${first}` : first, ...rest];
+    return `${i + 1}\n${formatVTTTime(cue.start)} --> ${formatVTTTime(cue.end)} ${VTT_CUE_SETTINGS}\n${lines.join('\n')}\n`;
+  }).join('\n');
+  return `${header}\n\n${body}`;
+};
+
+/**
+ * Bloco de capítulos para a descrição do YouTube ("00:00 Introdução").
+ * O YouTube exige que o primeiro comece em 00:00.
+ */
+export const toYouTubeChapters = (chapters: Chapter[]): string =>
+  chapters.map((chapter, i) => `${formatClock(i === 0 ? 0 : chapter.start)} ${chapter.title}`).join('\n');
+
+/**
+ * Trilha WebVTT de capítulos (<track kind="chapters">): cada capítulo vai até o início do próximo.
+ */
+export const toVttChapters = (chapters: Chapter[], duration: number): string => {
+  const body = chapters.map((chapter, i) => {
+    const end = i < chapters.length - 1 ? chapters[i + 1].start : Math.max(duration, chapter.start);
+    return `${i + 1}\n${formatVTTTime(chapter.start)} --> ${formatVTTTime(end)}\n${escapeVtt(chapter.title)}\n`;
+  }).join('\n');
+  return `WEBVTT - Capítulos\n\n${body}`;
+};
+
+const escapeVtt = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * CSV com uma linha por segmento (com BOM para o Excel reconhecer UTF-8).
+ */
+export const toCsv = (segments: TranscriptionSegment[]): string => {
+  const escape = (value: string | number) => {
+    const str = String(value);
+    return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+  };
+  const rows = segments.map((seg, i) =>
+    [i + 1, seg.start.toFixed(3), seg.end.toFixed(3), formatSRTTime(seg.start), seg.speaker || '', seg.text].map(escape).join(','));
+  return `\uFEFF${['indice,inicio_s,fim_s,inicio,locutor,texto', ...rows].join('\r\n')}`;
+};
+
+export const toMarkdown = (doc: ExportDocument): string => {
+  const parts: string[] = [`# ${doc.metadata?.title || 'Transcrição'}`];
+  if (doc.category) parts.push(`**Categoria:** ${doc.category}`);
+  if (doc.metadata?.description) parts.push(`> ${doc.metadata.description}`);
+  if (doc.summary) parts.push(`## Resumo\n\n${doc.summary.trim()}`);
+  parts.push(`## Transcrição\n\n${doc.segments.map(seg =>
+    `**[${formatClock(seg.start)}]**${seg.speaker ? ` **${seg.speaker}:**` : ''} ${seg.text}`).join('\n\n')}`);
+  if (doc.notes.length > 0) {
+    parts.push(`## Anotações\n\n${doc.notes.map(note => `- **${formatClock(note.timestamp)}** ${note.text || '(sem texto)'}`).join('\n')}`);
+  }
+  return `${parts.join('\n\n')}\n`;
+};
+
+/**
+ * Encaminhamentos da ata como lista de tarefas em Markdown (- [ ] ...), com
+ * responsável, prazo e o horário em que foram combinados.
+ */
+export const toTaskList = (summary: MeetingSummary, title?: string): string => {
+  const tasks = summary.actionItems.map(item => {
+    const details = [
+      item.owner && `@${item.owner}`,
+      item.dueDate && `até ${item.dueDate}`,
+      item.start !== undefined && `[${formatClock(item.start)}]`
+    ].filter(Boolean);
+    return `- [${item.done ? 'x' : ' '}] ${item.text}${details.length > 0 ? ` (${details.join(' · ')})` : ''}`;
+  });
+  return `# Tarefas: ${title || 'Reunião'}\n\n${tasks.length > 0 ? tasks.join('\n') : '_Nenhuma tarefa registrada._'}\n`;
+};
+
+/**
+ * Texto do resumo sem a marcação Markdown, para os formatos que não a entendem.
+ * Títulos viram linhas comuns e itens de lista ganham um marcador "•".
+ */
+export const stripMarkdown = (markdown: string): string =>
+  markdown
+    .split('\n')
+    .map(line => line
+      .replace(/^\s*([-*_])(\s*\1){2,}\s*$/, '')
+      .replace(/^\s{0,3}#{1,6}\s+/, '')
+      .replace(/^\s{0,3}>\s?/, '')
+      .replace(/^(\s*)[-*+]\s+(?:\[[ xX]\]\s+)?/, '$1• ')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/(\*\*|__)(.+?)\1/g, '$2')
+      .replace(/(^|[^\w*])[*_](?=\S)(.+?)(?<=\S)[*_](?![\w*])/g, '$1$2')
+      .replace(/`([^`]+)`/g, '$1'))
+    .join('\n')
+    .trim();
+
+/**
+ * Documento Word com título, descrição, segmentos com horário e anotações.
+ */
+export const toDocx = async (doc: ExportDocument): Promise<Blob> => {
+  const children: Paragraph[] = [
+    new Paragraph({ text: doc.metadata?.title || 'Transcrição', heading: HeadingLevel.TITLE })
+  ];
+  if (doc.metadata?.description) {
+    children.push(new Paragraph({ children: [new TextRun({ text: doc.metadata.description, italics: true })] }));
+  }
+  if (doc.summary) {
+    children.push(new Paragraph({ text: 'Resumo', heading: HeadingLevel.HEADING_1 }));
+    stripMarkdown(doc.summary).split('\n').filter(line => line.trim()).forEach(line => children.push(new Paragraph({ text: line.trim() })));
+  }
+  children.push(new Paragraph({ text: 'Transcrição', heading: HeadingLevel.HEADING_1 }));
+  doc.segments.forEach(seg => children.push(new Paragraph({
+    spacing: { after: 120 },
+    children: [
+      new TextRun({ text: `[${formatClock(seg.start)}] `, bold: true, color: '2563EB' }),
+      ...(seg.speaker ? [new TextRun({ text: `${seg.speaker}: `, bold: true })] : []),
+      new TextRun({ text: seg.text })
+    ]
+  })));
+  if (doc.notes.length > 0) {
+    children.push(new Paragraph({ text: 'Anotações', heading: HeadingLevel.HEADING_1 }));
+    doc.notes.forEach(note => children.push(new Paragraph({
+      bullet: { level: 0 },
+      children: [new TextRun({ text: `${formatClock(note.timestamp)} `, bold: true }), new TextRun({ text: note.text || '(sem texto)' })]
+    })));
+  }
+  return Packer.toBlob(new Document({ sections: [{ children }] }));
+};
+
+/**
+ * A fonte do PDF só cobre alfabetos latinos: textos em cirílico, árabe,
+ * devanágari ou CJK sairiam ilegíveis (para esses, DOCX ou impressão).
+ */
+export const canExportPdf = (doc: ExportDocument): boolean =>
+  [doc.metadata?.title, doc.metadata?.description, doc.summary, ...doc.segments.flatMap(seg => [seg.text, seg.speaker]), ...doc.notes.map(note => note.text)]
+    .every(text => !text || PDF_SAFE_TEXT.test(text.normalize('NFC')));
+
+/**
+ * PDF gerado no navegador (sem depender da caixa de impressão).
+ */
+export const toPdf = (doc: ExportDocument): Blob => {
+  if (!canExportPdf(doc)) throw new Error("O PDF só suporta alfabetos latinos. Exporte em Word (.docx) ou use Imprimir.");
+  const pdf = new jsPDF({ unit: 'pt', format: 'a4' });
+  const margin = 48;
+  const width = pdf.internal.pageSize.getWidth() - margin * 2;
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  let y = margin;
+
+  const write = (text: string, size: number, style: 'normal' | 'bold' | 'italic' = 'normal', gap = 6) => {
+    pdf.setFont('helvetica', style);
+    pdf.setFontSize(size);
+    const lines: string[] = pdf.splitTextToSize(text, width);
+    lines.forEach(line => {
+      if (y + size > pageHeight - margin) { pdf.addPage(); y = margin; }
+      pdf.text(line, margin, y + size);
+      y += size * 1.35;
+    });
+    y += gap;
+  };
+
+  write(doc.metadata?.title || 'Transcrição', 20, 'bold', 4);
+  if (doc.metadata?.description) write(doc.metadata.description, 11, 'italic', 12);
+  if (doc.summary) {
+    write('Resumo', 14, 'bold');
+    write(stripMarkdown(doc.summary), 11, 'normal', 12);
+  }
+  write('Transcrição', 14, 'bold');
+  doc.segments.forEach(seg => write(`[${formatClock(seg.start)}] ${seg.speaker ? `${seg.speaker}: ` : ''}${seg.text}`, 11));
+  if (doc.notes.length > 0) {
+    y += 6;
+    write('Anotações', 14, 'bold');
+    doc.notes.forEach(note => write(`${formatClock(note.timestamp)} - ${note.text || '(sem texto)'}`, 11, 'normal', 2));
+  }
+  return pdf.output('blob');
+};
+
+/**
+ * Nome de arquivo a partir do título (remove caracteres inválidos).
+ */
+export const buildFileName = (title: string | undefined, ext: string, suffix?: string): string => {
+  const base = (title || 'transcricao')
+    .replace(/[\\/:*?"<>|]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 80) || 'transcricao';
+  return `${base}${suffix ? `_${suffix}` : ''}.${ext}`;
+};
+
+// Arquivo dentro de um ZIP exportado em lote
+export interface ZipEntry {
+  name: string;
+  content: string | Blob;
+}
+
+/**
+ * Compacta vários arquivos em um ZIP, numerando nomes repetidos.
+ */
+export const toZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const used = new Set<string>();
+  entries.forEach(({ name, content }) => {
+    let unique = name;
+    for (let n = 2; used.has(unique); n++) unique = name.replace(/(\.[^.\/]+)?$/, ` (${n})$1`);
+    used.add(unique);
+    zip.file(unique, content);
+  });
+  return zip.generateAsync({ type: 'blob' });
+};
+
+const formatClock = (seconds: number): string => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60).toString().padStart(2, '0');
+  const s = Math.floor(seconds % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m}:${s}` : `${m}:${s}`;
+};
+
+/**
+ * Dispara o download de um arquivo gerado no navegador.
+ */
+export const downloadFile = (content: BlobPart, mime: string, filename: string) => {
+  const blob = new Blob([content], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url; a.download = filename;
+  document.body.appendChild(a); a.click(); document.body.removeChild(a); URL.revokeObjectURL(url);
+};
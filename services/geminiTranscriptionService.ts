@@ -0,0 +1,795 @@
+import { GoogleGenAI, Type, GenerateContentResponse, GenerateContentParameters } from "@google/genai";
+import { TranscriptionResponse, TranscriptionSegment, ChatMessage, ChatOptions, Chapter, Metadata, MeetingSummary, PromptProfile, SummaryItem, TranscriptionProvider, TranscriptionOptions } from '../types';
+import { decodeAudioFile, splitIntoWindows, blobToBase64 } from './audioChunker';
+import { stitchSegments, ChunkTranscript } from './segmentStitcher';
+import { getLanguageName, normalizeLanguageCode } from './languages';
+import { delay, isAbortError, throwIfAborted } from './cancellation';
+import { TranscriptionError, toTranscriptionError } from './errors';
+import { DEFAULT_SUMMARY_TEMPLATE, DEFAULT_TRANSCRIPTION_PROMPT } from './profileService';
+import { normalizeForSearch } from './textSearch';
+import { normalizeChapters, suggestChapterCount } from './chapters';
+import { ObjectSchema, ResponseValidator, checkArraySchema, checkSchema, normalizeSegments, segmentResponseValidator, validateJsonText } from './responseValidator';
+import { withoutWords } from './wordTimings';
+
+const MODEL = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+
+// O perfil pode trocar o modelo da transcrição e do resumo
+const modelFor = (profile?: PromptProfile): string => profile?.model?.trim() || MODEL;
+
+// Cliente criado sob demanda para que o provedor mock funcione sem API key
+let client: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+  if (!process.env.API_KEY) throw new TranscriptionError('missing_api_key');
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+};
+
+// Motivos de término que indicam bloqueio pelos filtros do modelo
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+const throwIfBlocked = (response: GenerateContentResponse): void => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new TranscriptionError('safety_block');
+  }
+};
+
+/**
+ * Texto da resposta, ou erro tipado se o modelo bloqueou ou não respondeu.
+ */
+const getResponseText = (response: GenerateContentResponse): string => {
+  throwIfBlocked(response);
+  const text = response.text;
+  if (!text) throw new TranscriptionError('malformed_response', "O modelo não retornou dados.");
+  return text;
+};
+
+/**
+ * Gera e valida uma resposta JSON. Se o esquema ou os tempos não baterem,
+ * pede uma única correção ao modelo antes de desistir.
+ */
+const generateJson = async <T>(request: GenerateContentParameters, validate: ResponseValidator): Promise<T> => {
+  const response = await getClient().models.generateContent(request);
+  const raw = cleanJson(getResponseText(response));
+  const first = validateJsonText(raw, validate);
+  const problems = [...first.report.errors, ...first.report.warnings];
+  if (problems.length === 0) return first.value as T;
+
+  console.warn("Resposta do modelo fora do esquema, pedindo correção:", problems);
+  const repair = await getClient().models.generateContent({
+    model: request.model,
+    contents: {
+      parts: [{
+        text: `O JSON abaixo tem problemas:
+        ${problems.map(p => `- ${p}`).join('\n')}
+
+        Devolva APENAS o JSON corrigido, na mesma estrutura. Não altere os textos, só os campos com problema.
+
+        ${raw}`
+      }]
+    },
+    config: {
+      abortSignal: request.config?.abortSignal,
+      responseMimeType: "application/json",
+      responseSchema: request.config?.responseSchema
+    }
+  });
+  const second = validateJsonText(cleanJson(getResponseText(repair)), validate);
+  if (second.report.errors.length === 0) return second.value as T;
+  // Correção falhou, mas a resposta original era utilizável (só avisos)
+  if (first.report.errors.length === 0) return first.value as T;
+  throw new TranscriptionError('malformed_response', undefined, { cause: new Error(second.report.errors.join('; ')) });
+};
+
+// Helper para limpar formatação Markdown de JSON
+const cleanJson = (text: string): string => {
+  if (!text) return "{}";
+  let cleaned = text.trim();
+  if (cleaned.startsWith('```json')) {
+    cleaned = cleaned.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+  } else if (cleaned.startsWith('```')) {
+    cleaned = cleaned.replace(/^```\s*/, '').replace(/\s*```$/, '');
+  }
+  return cleaned;
+};
+
+// Helper para extrair ID do YouTube de forma robusta
+const extractYouTubeId = (url: string): string | null => {
+  const patterns = [
+    /(?:https?:\/\/)?(?:www\.)?youtu\.be\/([^#\&\?\/]{11})/,
+    /(?:https?:\/\/)?(?:www\.)?youtube\.com\/watch\?v=([^#\&\?\/]{11})/,
+    /(?:https?:\/\/)?(?:www\.)?youtube\.com\/embed\/([^#\&\?\/]{11})/,
+    /(?:https?:\/\/)?(?:www\.)?youtube\.com\/v\/([^#\&\?\/]{11})/,
+    /(?:https?:\/\/)?(?:www\.)?youtube\.com\/shorts\/([^#\&\?\/]{11})/
+  ];
+
+  for (const pattern of patterns) {
+    const match = url.match(pattern);
+    if (match && match[1]) return match[1];
+  }
+  return null;
+};
+
+// Janelas de 5 minutos (~9.6MB em WAV 16kHz) com 5s de sobreposição
+const CHUNK_WINDOW_SECONDS = 300;
+const CHUNK_OVERLAP_SECONDS = 5;
+// Abaixo deste tamanho o arquivo curto é enviado inteiro, no formato original
+const MAX_INLINE_BYTES = 15 * 1024 * 1024;
+
+// Instrução de idioma: respeita o override do usuário ou pede detecção automática
+const buildLanguageRule = (language?: string): string => language
+  ? `O áudio está em ${getLanguageName(language)}. Transcreva nesse idioma, sem traduzir. Preencha "language" com "${language}".`
+  : `Detecte o idioma falado e transcreva no idioma ORIGINAL, sem traduzir. Preencha "language" com o código ISO 639-1 (ex: "pt", "en", "es").`;
+
+// Glossário do usuário: grafias que o modelo deve usar quando ouvir estes termos
+const buildVocabularyRule = (vocabulary?: string[]): string => vocabulary?.length
+  ? `Vocabulário esperado (nomes, produtos, siglas). Quando aparecerem, escreva exatamente assim: ${vocabulary.map(term => `"${term}"`).join(', ')}.`
+  : '';
+
+const buildCategoryRule = (categories?: string[]): string => categories?.length
+  ? `Preencha "category" com uma destas opções: ${categories.map(c => `"${c}"`).join(', ')}.`
+  : '';
+
+const buildWordTimingRule = (wordTimings?: boolean): string => wordTimings
+  ? `Em cada segmento, preencha "words" com uma entrada para cada palavra do texto, na mesma ordem (separadas por espaço, com a pontuação junto): início e fim em segundos e "confidence" de 0 a 1 (quão certo você está do que foi dito).`
+  : '';
+
+// Palavra a palavra (só quando pedido: a resposta fica bem maior)
+const WORD_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      text: { type: Type.STRING },
+      start: { type: Type.NUMBER },
+      end: { type: Type.NUMBER },
+      confidence: { type: Type.NUMBER }
+    },
+    required: ["text", "start", "end", "confidence"]
+  }
+};
+
+// Resposta fora da lista do perfil: usa a opção equivalente ignorando acentos, se houver
+const matchCategory = (category: string, categories?: string[]): string =>
+  categories?.find(c => normalizeForSearch(c) === normalizeForSearch(category)) ?? category;
+
+interface AudioPartOptions {
+  language?: string;
+  signal?: AbortSignal;
+  duration?: number; // Duração real do trecho, para validar os tempos
+  vocabulary?: string[];
+  profile?: PromptProfile;
+  wordTimings?: boolean;
+}
+
+interface AudioPartResult {
+  category: string;
+  language?: string;
+  segments: TranscriptionSegment[];
+}
+
+const PART_SCHEMA: ObjectSchema = {
+  category: { type: 'string' },
+  language: { type: 'string' },
+  segments: { type: 'array', required: true }
+};
+
+/**
+ * Transcreve um único trecho de áudio (base64) e devolve categoria + segmentos
+ * com timestamps relativos ao início do trecho.
+ */
+const transcribeAudioPart = async (base64Data: string, mimeType: string, options: AudioPartOptions = {}): Promise<AudioPartResult> => {
+  const { language, signal, duration, profile, wordTimings } = options;
+  const extraRules = [buildVocabularyRule(options.vocabulary), buildCategoryRule(profile?.categories), buildWordTimingRule(wordTimings)].filter(Boolean);
+  const parsed = await generateJson<any>({
+    model: modelFor(profile),
+    contents: {
+      parts: [
+        { inlineData: { mimeType, data: base64Data } },
+        {
+          text: `${profile?.transcriptionPrompt.trim() || DEFAULT_TRANSCRIPTION_PROMPT}
+          
+          REGRAS DE OURO:
+          1. NÃO RESUMA.
+          2. NÃO OMITA PALAVRAS.
+          3. Use pontuação correta para separar as falas.
+          4. Identifique quem está falando em cada segmento (diarização).
+             Use rótulos consistentes: "Locutor 1", "Locutor 2", ... na ordem em que aparecem.
+             Se houver apenas uma voz, use "Locutor 1" em todos os segmentos.
+          5. ${buildLanguageRule(language)}${extraRules.map((rule, i) => `
+          ${i + 6}. ${rule}`).join('')}
+          
+          Retorne JSON com categoria, idioma e segmentos.`
+        }
+      ]
+    },
+    config: {
+      abortSignal: signal,
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          category: { type: Type.STRING },
+          language: { type: Type.STRING },
+          segments: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                start: { type: Type.NUMBER },
+                end: { type: Type.NUMBER },
+                text: { type: Type.STRING },
+                speaker: { type: Type.STRING },
+                ...(wordTimings ? { words: WORD_SCHEMA } : {})
+              },
+              required: ["start", "end", "text", "speaker", ...(wordTimings ? ["words"] : [])]
+            }
+          }
+        },
+        required: ["category", "language", "segments"]
+      }
+    }
+  }, segmentResponseValidator(PART_SCHEMA, duration));
+
+  return {
+    category: parsed.category ? matchCategory(parsed.category, profile?.categories) : 'Geral',
+    language: normalizeLanguageCode(parsed.language) || language,
+    segments: normalizeSegments(parsed.segments, duration)
+  };
+};
+
+/**
+ * Transcreve um arquivo de áudio utilizando o modelo Gemini.
+ * Áudios longos são divididos em janelas sobrepostas, transcritos em sequência
+ * e costurados de volta. `onProgress` recebe cada etapa (leitura, envio, trecho N de M, metadados).
+ */
+const transcribeAudio = async (file: File, options: TranscriptionOptions = {}): Promise<TranscriptionResponse> => {
+  const { onProgress, signal } = options;
+  try {
+    throwIfAborted(signal);
+    onProgress?.({ stage: 'reading', fraction: 0 });
+    let audio: AudioBuffer | null = null;
+    try {
+      audio = await decodeAudioFile(file);
+      options.onAudioDecoded?.(audio);
+    } catch (e) {
+      // Codec não suportado pelo navegador: segue com o envio direto
+      console.warn("Não foi possível decodificar o áudio localmente:", e);
+    }
+    throwIfAborted(signal);
+
+    let category = 'Geral';
+    let language = options.language;
+    let segments: TranscriptionSegment[];
+
+    // WebM (gravações do navegador) não é aceito inline: vai sempre como WAV
+    const canSendOriginal = !file.type.includes('webm') && !options.chunkSeconds;
+    const windowSeconds = options.chunkSeconds || CHUNK_WINDOW_SECONDS;
+    if (!audio || (canSendOriginal && audio.duration <= windowSeconds && file.size <= MAX_INLINE_BYTES)) {
+      onProgress?.({ stage: 'uploading', fraction: 0.05 });
+      const base64 = await blobToBase64(file);
+      throwIfAborted(signal);
+      onProgress?.({ stage: 'transcribing', fraction: 0.1, current: 1, total: 1 });
+      const part = await transcribeAudioPart(base64, file.type, { language, signal, duration: audio?.duration, vocabulary: options.vocabulary, profile: options.profile, wordTimings: options.wordTimings });
+      category = part.category;
+      language = part.language;
+      segments = part.segments;
+    } else {
+      const windows = splitIntoWindows(audio, windowSeconds, CHUNK_OVERLAP_SECONDS);
+      const chunks: ChunkTranscript[] = [];
+      const categories: string[] = [];
+
+      // Obs: os rótulos de locutor são atribuídos por janela; o usuário pode
+      // renomeá-los depois no TranscriptionDisplay.
+      for (let i = 0; i < windows.length; i++) {
+        throwIfAborted(signal);
+        const win = windows[i];
+        onProgress?.({ stage: 'transcribing', fraction: 0.05 + 0.8 * (i / windows.length), current: i + 1, total: windows.length });
+        const part = await transcribeAudioPart(await blobToBase64(win.blob), 'audio/wav', { language, signal, duration: win.duration, vocabulary: options.vocabulary, profile: options.profile, wordTimings: options.wordTimings });
+        chunks.push({ offset: win.start, duration: win.duration, segments: part.segments });
+        categories.push(part.category);
+        // O idioma detectado na primeira janela vale para as seguintes
+        language = language || part.language;
+      }
+
+      segments = stitchSegments(chunks, CHUNK_OVERLAP_SECONDS);
+      category = mostFrequent(categories) || 'Geral';
+    }
+
+    const fullText = segments.map(seg => seg.text).join(' ');
+
+    onProgress?.({ stage: 'metadata', fraction: 0.85 });
+    // Sem título gerado a transcrição ainda é útil: usa o nome do arquivo
+    const metadata = await generateMetadata(fullText, signal, modelFor(options.profile)).catch((error): Metadata => {
+      if (isAbortError(error)) throw error;
+      console.warn("Falha ao gerar metadados:", error);
+      return { title: file.name.replace(/\.[^.]+$/, ''), description: "Título gerado a partir do nome do arquivo (a IA não gerou metadados)." };
+    });
+    onProgress?.({ stage: 'metadata', fraction: 1 });
+
+    return {
+      text: fullText,
+      category,
+      language,
+      metadata: metadata,
+      segments: segments,
+      confidence: 1.0
+    };
+
+  } catch (error) {
+    if (!isAbortError(error)) console.error("Erro na transcrição:", error);
+    throw error;
+  }
+};
+
+/**
+ * Transcreve um trecho curto (WAV ou formato suportado) sem gerar metadados.
+ */
+const transcribeChunk = async (audio: Blob, options: TranscriptionOptions = {}): Promise<TranscriptionSegment[]> => {
+  const part = await transcribeAudioPart(await blobToBase64(audio), audio.type || 'audio/wav', options);
+  return part.segments;
+};
+
+const mostFrequent = (values: string[]): string | undefined => {
+  const counts = new Map<string, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+/**
+ * PASSO 1: Busca o conteúdo FOCADO NO TEXTO FALADO (VERBATIM).
+ */
+const searchYouTubeContent = async (url: string, language?: string, signal?: AbortSignal, profile?: PromptProfile): Promise<string> => {
+  const videoId = extractYouTubeId(url);
+  const identifier = videoId ? `ID DO VÍDEO: ${videoId}` : `URL: ${url}`;
+  
+  // Query otimizada para achar o texto da legenda indexada
+  // Incluímos 'transcript' e o ID para tentar pegar a página do vídeo ou sites de legenda
+  const searchPrompt = videoId 
+    ? `site:youtube.com "${videoId}" (transcript OR subtitles OR "full text" OR legendas)`
+    : `${url} transcript`;
+
+  const response = await getClient().models.generateContent({
+    model: modelFor(profile),
+    contents: {
+      parts: [{
+        text: `IDENTIFICADOR: ${identifier}
+        QUERY: ${searchPrompt}
+
+        MISSÃO CRÍTICA: Extrair o ROTEIRO FALADO (Transcrição Literal) deste vídeo.
+
+        INSTRUÇÕES ESTRITAS (MODO ESTENÓGRAFO):
+        1. EXTRAIA APENAS O QUE FOI FALADO PELAS PESSOAS NO VÍDEO.
+        2. PROIBIDO RESUMIR. PROIBIDO USAR TERCEIRA PESSOA (ex: "O vídeo fala sobre...").
+        3. O texto deve estar em PRIMEIRA PESSOA (ex: "Olá pessoal, hoje eu vou mostrar...").
+        4. Copie o texto das legendas (CC) ou a transcrição completa disponível na página.
+        5. MANTENHA O IDIOMA ORIGINAL do vídeo. NÃO TRADUZA o diálogo.${language ? ` O vídeo está em ${getLanguageName(language)}.` : ''}
+
+        SE NÃO ENCONTRAR O TEXTO EXATO:
+        - Tente reconstruir o diálogo baseado nas citações mais longas encontradas.
+        - Se realmente impossível, retorne um erro claro, mas esforce-se para pegar o texto falado.
+
+        SAÍDA DESEJADA:
+        Título do Vídeo
+        Idioma falado (código ISO 639-1)
+        [Bloco de texto contendo todas as falas do vídeo, do início ao fim]`
+      }]
+    },
+    config: {
+      abortSignal: signal,
+      tools: [{ googleSearch: {} }],
+    }
+  });
+
+  return getResponseText(response);
+};
+
+/**
+ * PASSO 2: Formatação para JSON.
+ * Reforça a regra de não resumir.
+ */
+// "content_missing" dispensa os segmentos: o chamador trata como falta de legendas
+const URL_RESPONSE_VALIDATOR: ResponseValidator = value =>
+  (value as { error?: unknown } | null)?.error === 'content_missing'
+    ? { errors: [], warnings: [] }
+    : segmentResponseValidator({
+        title: { type: 'string' },
+        description: { type: 'string' },
+        segments: { type: 'array', required: true }
+      })(value);
+
+// O perfil entra como na transcrição de áudio: modelo, instruções e categorias
+const formatContentToJson = async (rawText: string, options: TranscriptionOptions = {}): Promise<any> => {
+  const { language, signal, profile } = options;
+  const extraRules = [buildVocabularyRule(options.vocabulary), buildCategoryRule(profile?.categories)].filter(Boolean);
+  return generateJson<any>({
+    model: modelFor(profile),
+    contents: {
+      parts: [{
+        text: `${profile?.transcriptionPrompt.trim() || DEFAULT_TRANSCRIPTION_PROMPT}
+
+        Converta o texto bruto abaixo para JSON estruturado de Transcrição.
+        
+        TEXTO BRUTO ENCONTRADO:
+        ${rawText}
+        
+        REGRAS ABSOLUTAS DE FORMATAÇÃO:
+        1. O campo "text" deve ser a FALA DIRETA (Primeira Pessoa).
+        2. SE O TEXTO BRUTO FOR UM RESUMO (ex: "O autor explica..."), TRANSFORME-O EM TÓPICOS DETALHADOS ou tente reescrever como se fosse o apresentador falando, mas PREFIRA SEMPRE AS CITAÇÕES DIRETAS.
+        3. NÃO ENCURTE O TEXTO. O usuário quer ler tudo o que foi dito.
+        4. O campo "title" deve ser o título do vídeo.
+        5. O campo "description" pode ser um resumo curto.
+        6. Se for possível distinguir quem fala, preencha "speaker" com "Locutor 1", "Locutor 2"...
+        7. Mantenha as falas no idioma original. ${buildLanguageRule(language)}${extraRules.map((rule, i) => `
+        ${i + 8}. ${rule}`).join('')}
+        
+        ESTRUTURA JSON:
+        {
+          "title": "Título do Vídeo",
+          "description": "Resumo curto do tema",
+          "language": "pt",
+          "category": "Categoria do conteúdo",
+          "segments": [
+             { "start": 0, "end": 10, "text": "Fala inicial...", "speaker": "Locutor 1" },
+             ...
+          ]
+        }
+        
+        IMPORTANTE: Se o input for muito curto ou parecer erro, retorne json "error": "content_missing".
+        `
+      }]
+    },
+    config: {
+      abortSignal: signal,
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          description: { type: Type.STRING },
+          language: { type: Type.STRING },
+          category: { type: Type.STRING },
+          error: { type: Type.STRING },
+          segments: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: { start: { type: Type.NUMBER }, end: { type: Type.NUMBER }, text: { type: Type.STRING }, speaker: { type: Type.STRING } },
+              required: ["start", "end", "text"]
+            }
+          }
+        },
+        required: ["title", "description", "segments"]
+      }
+    }
+  }, URL_RESPONSE_VALIDATOR);
+};
+
+/**
+ * Orquestrador principal.
+ */
+const transcribeUrl = async (url: string, options: TranscriptionOptions = {}): Promise<TranscriptionResponse> => {
+  const { signal, onProgress } = options;
+  const maxRetries = 2; // Aumentado para dar mais chance
+  let attempts = 0;
+  let lastError: Error | null = null;
+  
+  while (attempts < maxRetries) {
+    try {
+      throwIfAborted(signal);
+      attempts++;
+      console.log(`Tentativa ${attempts} de processar URL: ${url}`);
+
+      // 1. Busca
+      onProgress?.({ stage: 'searching', fraction: 0.05, current: attempts, total: maxRetries });
+      const rawSearchResult = await searchYouTubeContent(url, options.language, signal, options.profile);
+      
+      // 2. Formatação
+      onProgress?.({ stage: 'formatting', fraction: 0.6, current: attempts, total: maxRetries });
+      const data = await formatContentToJson(rawSearchResult, options);
+
+      // Verificações de falha
+      if (data.error === "content_missing" || !data.segments || data.segments.length === 0) {
+         throw new TranscriptionError('no_captions');
+      }
+
+      // Sucesso
+      const segments = normalizeSegments(data.segments);
+      const fullText = segments.map((s: any) => s.text).join(' ');
+
+      // Verificação extra de "Alucinação de Resumo"
+      // Se o texto for muito curto (< 100 chars) para um vídeo, provavelmente falhou.
+      if (fullText.length < 50) {
+         throw new TranscriptionError('no_captions', "O texto encontrado para este vídeo é curto demais para ser a transcrição completa.");
+      }
+
+      onProgress?.({ stage: 'formatting', fraction: 1, current: attempts, total: maxRetries });
+      return {
+        text: fullText,
+        // Sem categorias no perfil, continua "YouTube"
+        category: options.profile?.categories.length && data.category ? matchCategory(data.category, options.profile.categories) : "YouTube",
+        language: options.language || normalizeLanguageCode(data.language),
+        metadata: {
+          title: data.title || "Vídeo do YouTube",
+          description: data.description || "Transcrição importada."
+        },
+        segments: segments,
+        confidence: 0.90
+      };
+
+    } catch (error: any) {
+      // Cancelado: não tenta de novo
+      if (isAbortError(error)) throw error;
+      console.warn(`Erro tentativa ${attempts}:`, error);
+      lastError = toTranscriptionError(error);
+
+      // Chave ausente, bloqueio ou mídia inválida não melhoram com outra tentativa
+      const canRetry = lastError instanceof TranscriptionError && (lastError.retryable || lastError.code === 'no_captions');
+      if (!canRetry) break;
+
+      // Backoff simples antes de tentar de novo
+      if (attempts < maxRetries) {
+        await delay(2500, signal);
+      }
+    }
+  }
+  
+  // Se falhar todas, lança a causa real (já tipada)
+  throw lastError || new TranscriptionError('no_captions');
+};
+
+// --- FUNÇÕES AUXILIARES ---
+
+const generateMetadata = async (text: string, signal?: AbortSignal, model = MODEL): Promise<Metadata> => {
+  const json = await generateJson<Partial<Metadata>>({
+    model,
+    contents: { parts: [{ text: `Gere título e descrição para: ${text.substring(0, 5000)}...` }] },
+    config: {
+      abortSignal: signal,
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: { title: { type: Type.STRING }, description: { type: Type.STRING } },
+        required: ["title", "description"]
+      }
+    }
+  }, value => ({
+    errors: checkSchema(value, { title: { type: 'string', required: true }, description: { type: 'string' } }),
+    warnings: []
+  }));
+  return { title: json.title || "Transcrição", description: json.description || "" };
+};
+
+const refineText = async (text: string, signal?: AbortSignal, profile?: PromptProfile): Promise<string> => {
+  const response = await getClient().models.generateContent({
+    model: modelFor(profile),
+    contents: { parts: [{ text: `Melhore este texto para torná-lo profissional (apenas corrija gramática e pontuação, mantenha o conteúdo):\n${text}` }] },
+    config: { abortSignal: signal }
+  });
+  return getResponseText(response);
+};
+
+/**
+ * Chat com histórico real e resposta em streaming. O contexto vai com a marca
+ * de cada segmento (tempo, e fonte quando são várias transcrições) para o
+ * modelo citar de onde tirou a resposta.
+ */
+const sendChatMessage = async (history: ChatMessage[], context: string, question: string, options: ChatOptions = {}): Promise<string> => {
+  const chat = getClient().chats.create({
+    model: modelFor(options.profile),
+    history: history.map(msg => ({ role: msg.role, parts: [{ text: msg.text }] })),
+    config: {
+      systemInstruction: `Você é um assistente útil. Responda APENAS com base no conteúdo abaixo; se a resposta não estiver nele, diga isso.
+      Cada linha começa com uma marca entre colchetes com o tempo do trecho, ex: [02:15], ou a transcrição e o tempo, ex: [T2 02:15].
+      Sempre que usar uma informação, cite logo depois a marca do trecho de origem, exatamente como aparece (ex: "O prazo é sexta [02:15].").
+
+      CONTEÚDO:
+      ${context}`
+    }
+  });
+
+  const stream = await chat.sendMessageStream({ message: question, config: { abortSignal: options.signal } });
+  let answer = '';
+  for await (const chunk of stream) {
+    throwIfAborted(options.signal);
+    throwIfBlocked(chunk);
+    answer += chunk.text ?? '';
+    options.onChunk?.(answer);
+  }
+  if (!answer) throw new TranscriptionError('malformed_response', "O modelo não retornou dados.");
+  return answer;
+};
+
+const generateSummary = async (text: string, signal?: AbortSignal, profile?: PromptProfile): Promise<string> => {
+  const response = await getClient().models.generateContent({
+    model: modelFor(profile),
+    contents: { parts: [{ text: `${profile?.summaryTemplate.trim() || DEFAULT_SUMMARY_TEMPLATE}\n\n${text}` }] },
+    config: { abortSignal: signal }
+  });
+  return getResponseText(response);
+};
+
+// Uma linha por segmento, numerada: o modelo aponta trechos pelo número
+const buildIndexedTranscript = (segments: TranscriptionSegment[]): string =>
+  segments.map((seg, i) => `[${i}] ${seg.speaker ? `${seg.speaker}: ` : ''}${seg.text}`).join('\n');
+
+// Início do segmento apontado pelo modelo (índice inválido fica sem tempo)
+const segmentStart = (segments: TranscriptionSegment[], index: unknown): number | undefined =>
+  Number.isInteger(index) ? segments[index as number]?.start : undefined;
+
+// "segment" = número da linha (entre colchetes) onde o item foi dito
+const MEETING_ITEM_SCHEMA: ObjectSchema = {
+  text: { type: 'string', required: true },
+  segment: { type: 'number' }
+};
+const MEETING_LISTS = ['actionItems', 'decisions', 'questions', 'topics'] as const;
+
+const meetingItemSchema = (extra: Record<string, unknown> = {}) => ({
+  type: Type.OBJECT,
+  properties: { text: { type: Type.STRING }, segment: { type: Type.INTEGER }, ...extra },
+  required: ["text", "segment"]
+});
+
+/**
+ * Ata estruturada da reunião. Cada item aponta o segmento de origem,
+ * convertido aqui no tempo de início para o player.
+ */
+const generateMeetingSummary = async (segments: TranscriptionSegment[], signal?: AbortSignal, profile?: PromptProfile): Promise<MeetingSummary> => {
+  const json = await generateJson<any>({
+    model: modelFor(profile),
+    contents: {
+      parts: [{
+        text: `Analise a transcrição de reunião abaixo e monte uma ata estruturada, no idioma da transcrição.
+        - overview: um parágrafo curto com o objetivo e o resultado da reunião.
+        - actionItems: tarefas combinadas. "owner" é o responsável como foi citado (nome ou locutor) e "dueDate" o prazo como foi dito; deixe vazio se não houver.
+        - decisions: decisões tomadas.
+        - questions: perguntas ou pendências que ficaram em aberto.
+        - topics: principais assuntos discutidos, na ordem em que aparecem.
+        Em todos os itens, preencha "segment" com o número entre colchetes da linha onde o assunto foi dito.
+        Use apenas o que está na transcrição; listas sem itens ficam vazias.
+
+        ${buildIndexedTranscript(segments)}`
+      }]
+    },
+    config: {
+      abortSignal: signal,
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          overview: { type: Type.STRING },
+          actionItems: { type: Type.ARRAY, items: meetingItemSchema({ owner: { type: Type.STRING }, dueDate: { type: Type.STRING } }) },
+          decisions: { type: Type.ARRAY, items: meetingItemSchema() },
+          questions: { type: Type.ARRAY, items: meetingItemSchema() },
+          topics: { type: Type.ARRAY, items: meetingItemSchema() }
+        },
+        required: ["overview", ...MEETING_LISTS]
+      }
+    }
+  }, value => ({
+    errors: [
+      ...checkSchema(value, { overview: { type: 'string' } }),
+      ...MEETING_LISTS.flatMap(list => checkArraySchema((value as any)?.[list] ?? [], MEETING_ITEM_SCHEMA, list))
+    ],
+    warnings: []
+  }));
+
+  const toItem = (item: any): SummaryItem => ({ text: item.text.trim(), start: segmentStart(segments, item.segment) });
+  const listOf = (list: typeof MEETING_LISTS[number]): any[] => json[list] ?? [];
+  return {
+    overview: json.overview?.trim() || '',
+    actionItems: listOf('actionItems').map(item => ({
+      ...toItem(item),
+      owner: item.owner?.trim() || undefined,
+      dueDate: item.dueDate?.trim() || undefined
+    })),
+    decisions: listOf('decisions').map(toItem),
+    questions: listOf('questions').map(toItem),
+    topics: listOf('topics').map(toItem)
+  };
+};
+
+const CHAPTER_SCHEMA: ObjectSchema = {
+  title: { type: 'string', required: true },
+  segment: { type: 'number', required: true }
+};
+
+/**
+ * Divide a gravação em capítulos por mudança de assunto. O modelo indica o
+ * segmento onde cada capítulo começa.
+ */
+const generateChapters = async (segments: TranscriptionSegment[], signal?: AbortSignal, profile?: PromptProfile): Promise<Chapter[]> => {
+  if (segments.length === 0) return [];
+  const count = suggestChapterCount(segments[segments.length - 1].end);
+  const items = await generateJson<{ title: string, segment: number }[]>({
+    model: modelFor(profile),
+    contents: {
+      parts: [{
+        text: `Divida a transcrição abaixo em cerca de ${count} capítulos, um para cada mudança de assunto.
+        Para cada capítulo, preencha "segment" com o número entre colchetes da linha onde ele começa
+        e "title" com um título curto (até 6 palavras), no idioma da transcrição.
+        O primeiro capítulo começa na linha 0.
+
+        ${buildIndexedTranscript(segments)}`
+      }]
+    },
+    config: {
+      abortSignal: signal,
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: { title: { type: Type.STRING }, segment: { type: Type.INTEGER } },
+          required: ["title", "segment"]
+        }
+      }
+    }
+  }, value => ({ errors: checkArraySchema(value, CHAPTER_SCHEMA, 'capitulos'), warnings: [] }));
+
+  return normalizeChapters(items.flatMap(item => {
+    const start = segmentStart(segments, item.segment);
+    return start === undefined ? [] : [{ title: item.title, start }];
+  }), segments);
+};
+
+// Segmentos enviados por requisição de tradução
+const TRANSLATION_BATCH_SIZE = 80;
+const TRANSLATION_ITEM_SCHEMA: ObjectSchema = {
+  index: { type: 'number', required: true },
+  text: { type: 'string', required: true }
+};
+
+/**
+ * Traduz segmento a segmento, preservando início, fim e locutor de cada um.
+ */
+const translateSegments = async (segments: TranscriptionSegment[], targetLanguage: string, signal?: AbortSignal, profile?: PromptProfile): Promise<TranscriptionSegment[]> => {
+  const translated: TranscriptionSegment[] = [];
+
+  for (let offset = 0; offset < segments.length; offset += TRANSLATION_BATCH_SIZE) {
+    const batch = segments.slice(offset, offset + TRANSLATION_BATCH_SIZE);
+    const items = await generateJson<{ index: number, text: string }[]>({
+      model: modelFor(profile),
+      contents: {
+        parts: [{
+          text: `Traduza cada item abaixo para ${getLanguageName(targetLanguage)}.
+          Traduza item por item: NÃO junte, divida ou omita itens, e mantenha o mesmo "index".
+
+          ${JSON.stringify(batch.map((seg, i) => ({ index: i, text: seg.text })))}`
+        }]
+      },
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: { index: { type: Type.INTEGER }, text: { type: Type.STRING } },
+            required: ["index", "text"]
+          }
+        }
+      }
+    }, value => ({ errors: checkArraySchema(value, TRANSLATION_ITEM_SCHEMA), warnings: [] }));
+
+    const byIndex = new Map(items.map(item => [item.index, item.text]));
+    // Item ausente na resposta: mantém o original para não perder o alinhamento
+    batch.forEach((seg, i) => translated.push({ ...withoutWords(seg), text: byIndex.get(i) ?? seg.text }));
+  }
+
+  return translated;
+};
+
+export const geminiProvider: TranscriptionProvider = {
+  name: 'gemini',
+  transcribeAudio,
+  transcribeUrl,
+  transcribeChunk,
+  generateMetadata,
+  generateSummary,
+  generateMeetingSummary,
+  generateChapters,
+  translateSegments,
+  refineText,
+  sendChatMessage
+};
@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { addCorrection, applyGlossary, applyGlossaryToResponse, getVocabulary, loadGlossary } from './glossaryService';
+
+// localStorage em memória (os testes rodam fora do navegador)
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => { storage.set(key, value); }
+});
+
+beforeEach(() => storage.clear());
+
+const glossary = [{ term: 'Claria', variants: ['Clara IA', 'klaria'] }];
+
+describe('applyGlossary', () => {
+  it('troca as variantes pelo termo, sem diferenciar acentos e maiúsculas', () => {
+    expect(applyGlossary('A clara ia e a Klária responderam.', glossary)).toBe('A Claria e a Claria responderam.');
+  });
+
+  it('só troca palavras inteiras', () => {
+    expect(applyGlossary('klarianos', glossary)).toBe('klarianos');
+  });
+
+  it('troca variantes com símbolos e em outros alfabetos', () => {
+    const entries = [{ term: 'C++', variants: ['c mais mais'] }, { term: '.NET', variants: ['.net'] }, { term: 'Яндекс', variants: ['яндекс'] }];
+    expect(applyGlossary('Em c mais mais ou .net, no яндекс.', entries)).toBe('Em C++ ou .NET, no Яндекс.');
+  });
+});
+
+describe('loadGlossary', () => {
+  it('descarta entradas salvas com formato inválido', () => {
+    storage.set('claria_ai_glossary', JSON.stringify([{ term: 'Claria', variants: ['klaria'] }, { term: 'X' }, null, { term: 'Y', variants: [1] }]));
+    expect(loadGlossary()).toEqual([{ term: 'Claria', variants: ['klaria'] }]);
+    expect(applyGlossaryToResponse({ text: 'oi klaria', segments: [], confidence: 1 }).text).toBe('oi Claria');
+  });
+});
+
+describe('addCorrection', () => {
+  it('junta variantes no termo existente sem repetir', () => {
+    addCorrection('klaria', 'Claria');
+    addCorrection('Klaria', 'claria');
+    const entries = addCorrection('Clara IA', 'Claria');
+    expect(entries).toEqual([{ term: 'Claria', variants: ['klaria', 'Clara IA'] }]);
+    expect(loadGlossary()).toEqual(entries);
+  });
+
+  it('não registra a própria grafia correta como variante', () => {
+    expect(addCorrection('Claria', 'Claria')).toEqual([{ term: 'Claria', variants: [] }]);
+    expect(getVocabulary()).toEqual(['Claria']);
+  });
+});
+
+describe('applyGlossaryToResponse', () => {
+  it('corrige segmentos, texto e metadados', () => {
+    const response = {
+      text: 'antigo',
+      segments: [{ start: 0, end: 2, text: 'Oi klaria' }, { start: 2, end: 4, text: 'tudo certo' }],
+      confidence: 1,
+      metadata: { title: 'Conversa com klaria', description: '' }
+    };
+    const result = applyGlossaryToResponse(response, glossary);
+    expect(result.segments[0].text).toBe('Oi Claria');
+    expect(result.segments[1]).toBe(response.segments[1]);
+    expect(result.text).toBe('Oi Claria tudo certo');
+    expect(result.metadata?.title).toBe('Conversa com Claria');
+  });
+
+  it('sem variantes devolve a mesma resposta', () => {
+    const response = { text: 'a', segments: [], confidence: 1 };
+    expect(applyGlossaryToResponse(response, [{ term: 'Claria', variants: [] }])).toBe(response);
+  });
+});
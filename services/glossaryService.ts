@@ -0,0 +1,102 @@
+import { TranscriptionResponse, TranscriptionSegment } from '../types';
+import { compileSearch, replaceMatches } from './textSearch';
+import { deriveText } from './segmentEditor';
+import { ObjectSchema, checkSchema } from './responseValidator';
+import { withSegmentText } from './wordTimings';
+
+// Glossário salvo (localStorage): grafias corretas de nomes e produtos e os
+// erros recorrentes do modelo para cada uma. Vale para todas as transcrições novas.
+
+export interface GlossaryEntry {
+  term: string;       // Grafia correta (também enviada como dica ao modelo)
+  variants: string[]; // Grafias erradas trocadas automaticamente pelo termo
+}
+
+const STORAGE_KEY = 'claria_ai_glossary';
+
+const GLOSSARY_SCHEMA: ObjectSchema = {
+  term: { type: 'string', required: true },
+  variants: { type: 'array', required: true }
+};
+
+const isGlossaryEntry = (value: unknown): value is GlossaryEntry =>
+  checkSchema(value, GLOSSARY_SCHEMA).length === 0
+  && (value as GlossaryEntry).variants.every(variant => typeof variant === 'string');
+
+export const loadGlossary = (): GlossaryEntry[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed.filter(isGlossaryEntry) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveGlossary = (entries: GlossaryEntry[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.warn("Não foi possível salvar o glossário:", error);
+  }
+};
+
+const sameTerm = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Registra uma correção (ex: vinda do localizar e substituir). Junta com o
+ * termo existente quando já houver um com a mesma grafia.
+ */
+export const addCorrection = (wrong: string, right: string): GlossaryEntry[] => {
+  const term = right.trim();
+  const variant = wrong.trim();
+  if (!term) return loadGlossary();
+
+  const entries = loadGlossary();
+  const existing = entries.find(entry => sameTerm(entry.term, term));
+  const variants = existing?.variants ?? [];
+  const merged: GlossaryEntry = {
+    term,
+    variants: variant && !sameTerm(variant, term) && !variants.some(v => sameTerm(v, variant)) ? [...variants, variant] : variants
+  };
+  const updated = existing ? entries.map(entry => entry === existing ? merged : entry) : [...entries, merged];
+  saveGlossary(updated);
+  return updated;
+};
+
+/**
+ * Termos enviados ao modelo como vocabulário esperado.
+ */
+export const getVocabulary = (entries: GlossaryEntry[] = loadGlossary()): string[] =>
+  entries.map(entry => entry.term).filter(Boolean);
+
+/**
+ * Troca as grafias erradas pelo termo correto (palavra inteira, sem diferenciar acentos).
+ */
+export const applyGlossary = (text: string, entries: GlossaryEntry[] = loadGlossary()): string =>
+  entries.reduce((current, entry) => entry.variants.reduce(
+    (acc, variant) => replaceMatches(acc, compileSearch(variant, { regex: false, wholeWord: true }).pattern, entry.term),
+    current
+  ), text);
+
+export const applyGlossaryToSegments = (segments: TranscriptionSegment[], entries: GlossaryEntry[] = loadGlossary()): TranscriptionSegment[] =>
+  segments.map(seg => {
+    const text = applyGlossary(seg.text, entries);
+    return text === seg.text ? seg : withSegmentText(seg, text);
+  });
+
+/**
+ * Aplica o glossário a uma transcrição recém-gerada (segmentos, texto e metadados).
+ */
+export const applyGlossaryToResponse = (response: TranscriptionResponse, entries: GlossaryEntry[] = loadGlossary()): TranscriptionResponse => {
+  if (!entries.some(entry => entry.variants.length > 0)) return response;
+  const segments = applyGlossaryToSegments(response.segments, entries);
+  return {
+    ...response,
+    segments,
+    text: segments.length > 0 ? deriveText(segments) : applyGlossary(response.text, entries),
+    metadata: response.metadata && {
+      title: applyGlossary(response.metadata.title, entries),
+      description: applyGlossary(response.metadata.description, entries)
+    }
+  };
+};
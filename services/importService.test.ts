@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { toAppJson } from './exportService';
+import { parseAppJson, parseSrt, parseTimestamp, parseVtt } from './importService';
+
+describe('parseTimestamp', () => {
+  it('aceita horas, minutos e frações com vírgula ou ponto', () => {
+    expect(parseTimestamp('01:02:03,456')).toBeCloseTo(3723.456);
+    expect(parseTimestamp('02:03.4')).toBeCloseTo(123.4);
+    expect(parseTimestamp('2:03')).toBe(123);
+    expect(parseTimestamp(' 00:00:01.000 ')).toBe(1);
+  });
+});
+
+describe('parseSrt', () => {
+  it('lê os blocos com tempos e texto em várias linhas', () => {
+    const srt = `1
+00:00:01,000 --> 00:00:03,500
+Olá, pessoal.
+
+2
+00:00:04,000 --> 00:00:06,000
+Primeira linha
+<i>segunda linha</i>
+`;
+    expect(parseSrt(srt)).toEqual([
+      { start: 1, end: 3.5, text: 'Olá, pessoal.' },
+      { start: 4, end: 6, text: 'Primeira linha segunda linha' }
+    ]);
+  });
+
+  it('aceita quebras de linha do Windows', () => {
+    expect(parseSrt('1\r\n00:00:01,000 --> 00:00:02,000\r\nTeste\r\n')).toEqual([{ start: 1, end: 2, text: 'Teste' }]);
+  });
+
+  it('extrai o locutor quando a maioria das legendas tem "Nome:"', () => {
+    const srt = `1
+00:00:01,000 --> 00:00:02,000
+Ana: Bom dia.
+
+2
+00:00:03,000 --> 00:00:04,000
+Bruno: Bom dia, Ana.
+`;
+    expect(parseSrt(srt)).toEqual([
+      { start: 1, end: 2, text: 'Bom dia.', speaker: 'Ana' },
+      { start: 3, end: 4, text: 'Bom dia, Ana.', speaker: 'Bruno' }
+    ]);
+  });
+
+  it('não confunde uma frase com dois-pontos com locutor', () => {
+    const srt = `1
+00:00:01,000 --> 00:00:02,000
+Atenção: começa agora.
+
+2
+00:00:03,000 --> 00:00:04,000
+Sem locutor aqui.
+
+3
+00:00:05,000 --> 00:00:06,000
+Nem aqui.
+`;
+    expect(parseSrt(srt).every(seg => !seg.speaker)).toBe(true);
+  });
+});
+
+describe('parseVtt', () => {
+  it('ignora cabeçalho e NOTE e lê a tag de voz', () => {
+    const vtt = `WEBVTT - Reunião
+
+NOTE gerado pelo app
+
+1
+00:00:01.000 --> 00:00:02.500 line:85% position:50% align:center
+<v Locutor 1>Olá &amp; bem-vindos
+
+00:01:00.000 --> 00:01:02.000
+<v.loud Locutor 2>Obrigado
+`;
+    expect(parseVtt(vtt)).toEqual([
+      { start: 1, end: 2.5, text: 'Olá & bem-vindos', speaker: 'Locutor 1' },
+      { start: 60, end: 62, text: 'Obrigado', speaker: 'Locutor 2' }
+    ]);
+  });
+
+  it('descarta legendas sem texto', () => {
+    expect(parseVtt('WEBVTT\n\n00:00:01.000 --> 00:00:02.000\n<b></b>\n')).toEqual([]);
+  });
+
+  it('exige o cabeçalho WEBVTT', () => {
+    expect(() => parseVtt('00:00:01.000 --> 00:00:02.000\nTexto\n')).toThrow(/WEBVTT/);
+  });
+});
+
+describe('parseAppJson', () => {
+  it('aceita uma lista de segmentos solta', () => {
+    const parsed = parseAppJson('[{"start":"1","end":2,"text":"Oi"}]');
+    expect(parsed.response.segments).toEqual([{ start: 1, end: 2, text: 'Oi' }]);
+    expect(parsed.notes).toEqual([]);
+  });
+
+  it('lê anotações e traduções', () => {
+    const parsed = parseAppJson(JSON.stringify({
+      segments: [{ start: 0, end: 1, text: 'Oi' }],
+      notes: [{ timestamp: '4', text: 'revisar' }, { text: 'sem tempo' }],
+      translations: { en: [{ start: 0, end: 1, text: 'Hi' }], es: 'inválido' }
+    }));
+    expect(parsed.notes).toEqual([{ timestamp: 4, text: 'revisar' }]);
+    expect(parsed.translations).toEqual({ en: [{ start: 0, end: 1, text: 'Hi' }] });
+  });
+
+  it('recusa JSON inválido', () => {
+    expect(() => parseAppJson('{')).toThrow("JSON inválido.");
+  });
+
+  it('lê de volta tudo o que a exportação JSON grava', () => {
+    const meetingSummary = {
+      overview: 'Reunião curta.',
+      actionItems: [{ text: 'Enviar a ata', owner: 'Ana', dueDate: 'sexta', start: 1, done: true }],
+      decisions: [{ text: 'Manter o prazo' }],
+      questions: [],
+      topics: [{ text: 'Prazo', start: 0 }]
+    };
+    const doc = {
+      metadata: { title: 'Reunião', description: 'Semanal' },
+      category: 'Trabalho',
+      language: 'pt',
+      segments: [{ start: 0, end: 1, text: 'Oi', speaker: 'Ana' }],
+      text: 'Oi',
+      notes: [{ timestamp: 0.5, text: 'nota' }],
+      translations: { en: [{ start: 0, end: 1, text: 'Hi' }] },
+      summary: '## Resumo\n- ok',
+      meetingSummary,
+      chapters: [{ title: 'Abertura', start: 0 }]
+    };
+    const parsed = parseAppJson(toAppJson(doc));
+    expect(parsed.response).toEqual({ segments: doc.segments, category: 'Trabalho', language: 'pt', metadata: doc.metadata });
+    expect(parsed.notes).toEqual(doc.notes);
+    expect(parsed.translations).toEqual(doc.translations);
+    expect(parsed.summary).toBe(doc.summary);
+    expect(parsed.meetingSummary).toEqual(meetingSummary);
+    expect(parsed.chapters).toEqual(doc.chapters);
+  });
+});
@@ -0,0 +1,237 @@
+import { TranscriptionResponse, TranscriptionSegment, ActionItem, Chapter, MeetingSummary, Note, SummaryItem, TranslationCache } from '../types';
+import { deriveText } from './segmentEditor';
+import { normalizeWords } from './wordTimings';
+
+// Importação de legendas (SRT/VTT) e de exportações JSON feitas pelo próprio app.
+
+export const IMPORT_EXTENSIONS = ['.srt', '.vtt', '.json'];
+
+export interface ImportedTranscript {
+  response: TranscriptionResponse;
+  notes: Note[];
+  translations: TranslationCache;
+  summary: string | null;
+  meetingSummary: MeetingSummary | null;
+  chapters: Chapter[] | null;
+}
+
+// Legendas só trazem os segmentos
+const NO_EXTRAS = { notes: [], translations: {}, summary: null, meetingSummary: null, chapters: null };
+
+const TIMING_LINE = /((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)/;
+// "Nome: fala" no início da legenda (como no SRT exportado pelo app)
+const SPEAKER_PREFIX = /^([\p{L}][\p{L}\p{N} .'-]{0,29}):\s+(.+)$/u;
+// Ritmo médio de fala usado para estimar tempos de texto colado (~150 palavras/min)
+const WORDS_PER_SECOND = 2.5;
+
+/**
+ * Converte "01:02:03,456", "02:03.4" ou "2:03" em segundos.
+ */
+export const parseTimestamp = (value: string): number => {
+  const [clock, fraction = '0'] = value.trim().replace(',', '.').split('.');
+  const seconds = clock.split(':').map(Number).reduce((acc, part) => acc * 60 + part, 0);
+  return seconds + Number(`0.${fraction}`);
+};
+
+const stripTags = (text: string): string =>
+  text.replace(/\{\\[^}]*\}/g, '').replace(/<[^>]+>/g, '').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&').trim();
+
+/**
+ * Lê blocos de legenda (SRT ou VTT) separados por linha em branco.
+ */
+const parseCueBlocks = (content: string): TranscriptionSegment[] => {
+  const blocks = content.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const segments: TranscriptionSegment[] = [];
+
+  blocks.forEach(block => {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+    if (timingIndex === -1) return; // cabeçalho WEBVTT, NOTE, STYLE, etc.
+
+    const [, start, end] = lines[timingIndex].match(TIMING_LINE)!;
+    const rawLines = lines.slice(timingIndex + 1);
+    if (rawLines.length === 0) return;
+
+    // Tag de voz do WebVTT: <v Nome>texto
+    const voice = rawLines[0].match(/^<v(?:\.[^\s>]+)?\s+([^>]+)>/);
+    const text = stripTags(rawLines.join(' '));
+    if (!text) return;
+
+    segments.push({ start: parseTimestamp(start), end: parseTimestamp(end), text, ...(voice ? { speaker: voice[1].trim() } : {}) });
+  });
+
+  return segments;
+};
+
+/**
+ * Só trata "Nome:" como locutor quando a maioria das legendas segue esse padrão,
+ * para não confundir frases soltas como "Atenção: ..." com falas.
+ */
+const extractSpeakerPrefixes = (segments: TranscriptionSegment[]): TranscriptionSegment[] => {
+  if (segments.some(seg => seg.speaker)) return segments;
+  const matches = segments.map(seg => seg.text.match(SPEAKER_PREFIX));
+  if (matches.filter(Boolean).length < segments.length / 2) return segments;
+
+  return segments.map((seg, i) => {
+    const match = matches[i];
+    return match ? { ...seg, speaker: match[1], text: match[2] } : seg;
+  });
+};
+
+export const parseSrt = (content: string): TranscriptionSegment[] => extractSpeakerPrefixes(parseCueBlocks(content));
+
+export const parseVtt = (content: string): TranscriptionSegment[] => {
+  if (!content.trimStart().startsWith('WEBVTT')) throw new Error("Arquivo VTT inválido: cabeçalho WEBVTT ausente.");
+  return extractSpeakerPrefixes(parseCueBlocks(content));
+};
+
+const isValidSegment = (seg: any): seg is TranscriptionSegment =>
+  seg && typeof seg.text === 'string' && Number.isFinite(Number(seg.start)) && Number.isFinite(Number(seg.end));
+
+const toSegments = (items: unknown): TranscriptionSegment[] =>
+  Array.isArray(items)
+    ? items.filter(isValidSegment).map(item => {
+        const seg: TranscriptionSegment = {
+          start: Number(item.start),
+          end: Number(item.end),
+          text: item.text,
+          ...(item.speaker ? { speaker: String(item.speaker) } : {})
+        };
+        const words = normalizeWords(item.words, seg);
+        return words ? { ...seg, words } : seg;
+      })
+    : [];
+
+const isSummaryItem = (item: any): boolean => typeof item?.text === 'string' && item.text.trim() !== '';
+
+const toSummaryItem = (item: any): SummaryItem => ({
+  text: item.text,
+  ...(Number.isFinite(item.start) ? { start: Number(item.start) } : {})
+});
+
+const toSummaryItems = (items: unknown): SummaryItem[] =>
+  Array.isArray(items) ? items.filter(isSummaryItem).map(toSummaryItem) : [];
+
+const toMeetingSummary = (data: any): MeetingSummary | null => {
+  if (!data || typeof data !== 'object') return null;
+  const actionItems = Array.isArray(data.actionItems)
+    ? data.actionItems.filter(isSummaryItem).map((item: any): ActionItem => ({
+        ...toSummaryItem(item),
+        ...(typeof item.owner === 'string' && item.owner ? { owner: item.owner } : {}),
+        ...(typeof item.dueDate === 'string' && item.dueDate ? { dueDate: item.dueDate } : {}),
+        ...(item.done === true ? { done: true } : {})
+      }))
+    : [];
+  return {
+    overview: typeof data.overview === 'string' ? data.overview : '',
+    actionItems,
+    decisions: toSummaryItems(data.decisions),
+    questions: toSummaryItems(data.questions),
+    topics: toSummaryItems(data.topics)
+  };
+};
+
+const toChapters = (items: unknown): Chapter[] | null => {
+  if (!Array.isArray(items)) return null;
+  return items
+    .filter((c: any) => typeof c?.title === 'string' && Number.isFinite(Number(c?.start)))
+    .map((c: any) => ({ title: c.title, start: Number(c.start) }))
+    .sort((a, b) => a.start - b.start);
+};
+
+/**
+ * JSON exportado pelo app (ou uma TranscriptionResponse / lista de segmentos).
+ */
+export const parseAppJson = (content: string): Omit<ImportedTranscript, 'response'> & { response: Partial<TranscriptionResponse> } => {
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error("JSON inválido.");
+  }
+
+  const segments = toSegments(Array.isArray(data) ? data : data?.segments);
+  const translations: TranslationCache = {};
+  if (data?.translations && typeof data.translations === 'object') {
+    Object.entries(data.translations).forEach(([lang, items]) => {
+      const parsed = toSegments(items);
+      if (parsed.length > 0) translations[lang] = parsed;
+    });
+  }
+  const notes: Note[] = Array.isArray(data?.notes)
+    ? data.notes.filter((n: any) => Number.isFinite(Number(n?.timestamp))).map((n: any) => ({ timestamp: Number(n.timestamp), text: String(n.text ?? '') }))
+    : [];
+
+  return {
+    response: {
+      segments,
+      category: typeof data?.category === 'string' ? data.category : undefined,
+      language: typeof data?.language === 'string' ? data.language : undefined,
+      metadata: data?.metadata?.title ? { title: String(data.metadata.title), description: String(data.metadata.description ?? '') } : undefined
+    },
+    notes,
+    translations,
+    summary: typeof data?.summary === 'string' && data.summary.trim() ? data.summary : null,
+    meetingSummary: toMeetingSummary(data?.meetingSummary),
+    chapters: toChapters(data?.chapters)
+  };
+};
+
+/**
+ * Lê um arquivo .srt, .vtt ou .json e monta uma TranscriptionResponse.
+ */
+export const importTranscriptFile = async (file: File): Promise<ImportedTranscript> => {
+  const content = await file.text();
+  const extension = '.' + file.name.split('.').pop()?.toLowerCase();
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+
+  let parsed: ReturnType<typeof parseAppJson>;
+  if (extension === '.json') parsed = parseAppJson(content);
+  else if (extension === '.vtt') parsed = { response: { segments: parseVtt(content) }, ...NO_EXTRAS };
+  else if (extension === '.srt') parsed = { response: { segments: parseSrt(content) }, ...NO_EXTRAS };
+  else throw new Error("Formato não suportado. Use SRT, VTT ou JSON.");
+
+  const segments = (parsed.response.segments || []).sort((a, b) => a.start - b.start);
+  if (segments.length === 0) throw new Error("Nenhum segmento encontrado no arquivo.");
+
+  return {
+    response: {
+      text: deriveText(segments),
+      category: parsed.response.category || 'Importado',
+      language: parsed.response.language,
+      metadata: parsed.response.metadata || { title: baseName, description: `Importado de ${file.name}.` },
+      segments,
+      confidence: 1.0
+    },
+    notes: parsed.notes,
+    translations: parsed.translations,
+    summary: parsed.summary,
+    meetingSummary: parsed.meetingSummary,
+    chapters: parsed.chapters
+  };
+};
+
+/**
+ * Texto colado manualmente (sem tempos): um segmento por parágrafo, ou por frase
+ * quando vier tudo em um bloco só, com tempos estimados pelo número de palavras.
+ */
+export const importPlainText = (content: string, title: string): TranscriptionResponse => {
+  const paragraphs = content.replace(/\r\n?/g, '\n').split(/\n+/).map(p => p.trim()).filter(Boolean);
+  const parts = paragraphs.length > 1 ? paragraphs : content.split(/(?<=[.!?])\s+/).map(p => p.trim()).filter(Boolean);
+  if (parts.length === 0) throw new Error("Cole algum texto para continuar.");
+
+  let cursor = 0;
+  const segments = extractSpeakerPrefixes(parts.map<TranscriptionSegment>(text => {
+    const start = cursor;
+    cursor += Math.max(1, text.split(/\s+/).length / WORDS_PER_SECOND);
+    return { start, end: cursor, text };
+  }));
+
+  return {
+    text: deriveText(segments),
+    category: 'Importado',
+    metadata: { title, description: "Transcrição colada manualmente (tempos estimados)." },
+    segments,
+    confidence: 1.0
+  };
+};
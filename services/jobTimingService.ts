@@ -0,0 +1,60 @@
+// Histórico de duração dos jobs (localStorage), usado para estimar o tempo dos próximos.
+
+export type JobKind = 'file' | 'url';
+
+interface JobTiming {
+  kind: JobKind;
+  bytes: number;   // tamanho do arquivo (0 para links)
+  seconds: number; // duração total do job
+}
+
+const STORAGE_KEY = 'claria_ai_job_timings';
+// Só os jobs mais recentes contam (rede e modelo mudam com o tempo)
+const MAX_TIMINGS = 20;
+
+// Estimativas usadas enquanto não há histórico
+const DEFAULT_SECONDS_PER_MB = 3;
+const DEFAULT_URL_SECONDS = 20;
+const MIN_FILE_SECONDS = 5;
+
+const loadTimings = (): JobTiming[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Registra a duração de um job concluído.
+ */
+export const recordJobTiming = (kind: JobKind, bytes: number, seconds: number) => {
+  if (!(seconds > 0)) return;
+  const timings = [...loadTimings(), { kind, bytes, seconds }].slice(-MAX_TIMINGS);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(timings));
+  } catch (error) {
+    console.warn("Não foi possível salvar o histórico de tempos:", error);
+  }
+};
+
+/**
+ * Tempo esperado (segundos) para um novo job, calibrado pelos jobs anteriores.
+ * Arquivos usam a média de segundos por MB; links, a média simples.
+ */
+export const estimateJobSeconds = (kind: JobKind, bytes: number): number => {
+  const past = loadTimings().filter(t => t.kind === kind);
+  const mb = bytes / (1024 * 1024);
+
+  if (kind === 'url') {
+    if (past.length === 0) return DEFAULT_URL_SECONDS;
+    return Math.round(past.reduce((sum, t) => sum + t.seconds, 0) / past.length);
+  }
+
+  const totalMb = past.reduce((sum, t) => sum + t.bytes, 0) / (1024 * 1024);
+  const secondsPerMb = totalMb > 0
+    ? past.reduce((sum, t) => sum + t.seconds, 0) / totalMb
+    : DEFAULT_SECONDS_PER_MB;
+  return Math.max(MIN_FILE_SECONDS, Math.round(mb * secondsPerMb));
+};
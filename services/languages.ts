@@ -0,0 +1,32 @@
+// Idiomas oferecidos na detecção/override da transcrição e como destino da tradução.
+// Códigos ISO 639-1, que é o formato pedido ao modelo no campo "language".
+export const SUPPORTED_LANGUAGES: { code: string, name: string }[] = [
+  { code: 'pt', name: 'Português' },
+  { code: 'en', name: 'Inglês' },
+  { code: 'es', name: 'Espanhol' },
+  { code: 'fr', name: 'Francês' },
+  { code: 'de', name: 'Alemão' },
+  { code: 'it', name: 'Italiano' },
+  { code: 'nl', name: 'Holandês' },
+  { code: 'ru', name: 'Russo' },
+  { code: 'ja', name: 'Japonês' },
+  { code: 'ko', name: 'Coreano' },
+  { code: 'zh', name: 'Chinês' },
+  { code: 'ar', name: 'Árabe' },
+  { code: 'hi', name: 'Hindi' }
+];
+
+/**
+ * Nome legível do idioma; devolve o próprio código se não estiver na lista.
+ */
+export const getLanguageName = (code?: string): string => {
+  if (!code) return 'Desconhecido';
+  const normalized = code.toLowerCase().split('-')[0];
+  return SUPPORTED_LANGUAGES.find(lang => lang.code === normalized)?.name || code;
+};
+
+/**
+ * Normaliza o código retornado pelo modelo ("pt-BR", "PT", "pt_br" => "pt").
+ */
+export const normalizeLanguageCode = (code?: string): string | undefined =>
+  code ? code.toLowerCase().split(/[-_]/)[0].trim() || undefined : undefined;
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { LibraryEntry, TranscriptionSegment } from '../types';
+import { buildLibraryContext, getLibraryFacets, searchLibrary, selectSources } from './librarySearch';
+
+const entry = (id: string, title: string, segments: TranscriptionSegment[], extra: Partial<LibraryEntry> = {}): LibraryEntry => ({
+  id,
+  title,
+  createdAt: 0,
+  updatedAt: 0,
+  audio: null,
+  notes: [],
+  translations: {},
+  summary: null,
+  meetingSummary: null,
+  chapters: null,
+  response: { text: segments.map(seg => seg.text).join(' '), segments, confidence: 1, category: 'Reunião' },
+  ...extra
+} as LibraryEntry);
+
+const planning = entry('1', 'Planejamento do orçamento', [
+  { start: 0, end: 5, text: 'Vamos revisar o orçamento anual.', speaker: 'Ana' },
+  { start: 5, end: 10, text: 'A campanha de marketing começa em março.', speaker: 'Bruno' },
+  { start: 10, end: 15, text: 'Fechamos a contratação da agência.', speaker: 'Ana' }
+], { createdAt: 100 });
+
+const interview = entry('2', 'Entrevista', [
+  { start: 0, end: 4, text: 'Conte sobre sua experiência com marketing digital.', speaker: 'Carla' }
+], { createdAt: 200, response: { text: '', segments: [{ start: 0, end: 4, text: 'Conte sobre sua experiência com marketing digital.', speaker: 'Carla' }], confidence: 1, category: 'Entrevista' } });
+
+describe('searchLibrary', () => {
+  it('ignora acentos e tolera erros de digitação', () => {
+    const hits = searchLibrary([planning, interview], 'orcamneto');
+    expect(hits.map(hit => hit.entry.id)).toEqual(['1']);
+    expect(hits[0].segments.map(hit => hit.index)).toEqual([0]);
+  });
+
+  it('título vale mais que um trecho', () => {
+    const review = entry('3', 'Revisão de marketing', [{ start: 0, end: 3, text: 'Resultados do trimestre.' }]);
+    const hits = searchLibrary([planning, interview, review], 'marketing');
+    expect(hits).toHaveLength(3);
+    expect(hits[0].entry.id).toBe('3');
+  });
+
+  it('aplica os filtros de categoria, locutor e data', () => {
+    expect(searchLibrary([planning, interview], 'marketing', { category: 'Entrevista' }).map(hit => hit.entry.id)).toEqual(['2']);
+    expect(searchLibrary([planning, interview], 'marketing', { speaker: 'Ana' })).toEqual([]);
+    expect(searchLibrary([planning, interview], '', { from: 150 }).map(hit => hit.entry.id)).toEqual(['2']);
+  });
+});
+
+describe('getLibraryFacets', () => {
+  it('lista categorias e locutores em ordem alfabética', () => {
+    expect(getLibraryFacets([planning, interview])).toEqual({ categories: ['Entrevista', 'Reunião'], speakers: ['Ana', 'Bruno', 'Carla'] });
+  });
+});
+
+describe('selectSources', () => {
+  it('agrupa os trechos por transcrição com os vizinhos', () => {
+    const sources = selectSources([planning, interview], 'Quando começa a campanha?');
+    expect(sources).toHaveLength(1);
+    expect(sources[0].entry).toBe(planning);
+    expect(sources[0].segments.map(hit => hit.index)).toEqual([0, 1, 2]);
+  });
+
+  it('perguntas só com palavras curtas não selecionam nada', () => {
+    expect(selectSources([planning], 'o que é?')).toEqual([]);
+  });
+});
+
+describe('buildLibraryContext', () => {
+  it('cita cada trecho com a fonte e o tempo', () => {
+    const context = buildLibraryContext([{ entry: interview, segments: [{ index: 0, segment: interview.response.segments[0], score: 1 }] }]);
+    expect(context.split('\n')[1]).toBe('[T1 00:00] Carla: Conte sobre sua experiência com marketing digital.');
+  });
+});
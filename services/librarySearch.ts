@@ -0,0 +1,171 @@
+import { LibraryEntry, TranscriptionSegment } from '../types';
+import { formatCitation } from './chatCitations';
+import { normalizeForSearch } from './textSearch';
+
+// Busca em toda a biblioteca: ignora acentos e maiúsculas e tolera erros de digitação.
+
+const tokenize = (text: string): string[] =>
+  normalizeForSearch(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// Distância de edição (Levenshtein) com parada antecipada ao passar de `max`
+const withinDistance = (a: string, b: string, max: number): boolean => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    if (Math.min(...current) > max) return false;
+    previous = current;
+  }
+  return previous[b.length] <= max;
+};
+
+// Erros de digitação tolerados conforme o tamanho do termo
+const allowedTypos = (term: string): number => term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+
+// 3 = palavra exata, 2 = prefixo, 1 = aproximada, 0 = não casa
+const matchWord = (term: string, word: string): number => {
+  if (word === term) return 3;
+  if (word.startsWith(term)) return 2;
+  const typos = allowedTypos(term);
+  return typos > 0 && Math.abs(word.length - term.length) <= typos && withinDistance(term, word, typos) ? 1 : 0;
+};
+
+/**
+ * Pontua um texto para os termos da busca. No modo 'all' todos os termos
+ * precisam aparecer (busca); no modo 'any' basta um (perguntas).
+ */
+const scoreText = (terms: string[], text: string, mode: 'all' | 'any' = 'all'): number => {
+  const words = tokenize(text);
+  let total = 0;
+  for (const term of terms) {
+    const best = words.reduce((max, word) => Math.max(max, matchWord(term, word)), 0);
+    if (best === 0 && mode === 'all') return 0;
+    total += best;
+  }
+  return total;
+};
+
+export interface LibraryFilters {
+  category?: string;
+  speaker?: string;
+  from?: number; // createdAt mínimo (timestamp)
+  to?: number;   // createdAt máximo (timestamp)
+}
+
+export interface SegmentHit {
+  index: number;
+  segment: TranscriptionSegment;
+  score: number;
+}
+
+export interface LibraryHit {
+  entry: LibraryEntry;
+  score: number;
+  segments: SegmentHit[]; // Trechos que casaram, do mais relevante ao menos
+}
+
+// Trechos exibidos por transcrição nos resultados
+const MAX_SEGMENTS_PER_ENTRY = 5;
+
+const matchesFilters = (entry: LibraryEntry, filters: LibraryFilters): boolean =>
+  (!filters.category || (entry.response.category || 'Geral') === filters.category)
+  && (!filters.speaker || entry.response.segments.some(seg => seg.speaker === filters.speaker))
+  && (filters.from === undefined || entry.createdAt >= filters.from)
+  && (filters.to === undefined || entry.createdAt <= filters.to);
+
+const scoreSegments = (entry: LibraryEntry, terms: string[], filters: LibraryFilters, mode: 'all' | 'any'): SegmentHit[] =>
+  entry.response.segments
+    .map((segment, index) => ({
+      index,
+      segment,
+      score: filters.speaker && segment.speaker !== filters.speaker ? 0 : scoreText(terms, segment.text, mode)
+    }))
+    .filter(hit => hit.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+/**
+ * Busca em título, descrição, categoria e segmentos de todas as transcrições.
+ * Sem termos, devolve as entradas filtradas na ordem original.
+ */
+export const searchLibrary = (entries: LibraryEntry[], query: string, filters: LibraryFilters = {}): LibraryHit[] => {
+  const terms = tokenize(query);
+  const filtered = entries.filter(entry => matchesFilters(entry, filters));
+  if (terms.length === 0) return filtered.map(entry => ({ entry, score: 0, segments: [] }));
+
+  return filtered
+    .flatMap(entry => {
+      const segments = scoreSegments(entry, terms, filters, 'all');
+      const headerScore = scoreText(terms, [entry.title, entry.response.metadata?.description, entry.response.category].join(' '));
+      if (segments.length === 0 && headerScore === 0) return [];
+      // Título vale mais que um trecho; várias ocorrências desempatam
+      const score = headerScore * 2 + (segments[0]?.score ?? 0) + Math.min(segments.length, 10) / 10;
+      return [{ entry, score, segments: segments.slice(0, MAX_SEGMENTS_PER_ENTRY) }];
+    })
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Categorias e locutores presentes na biblioteca (opções dos filtros).
+ */
+export const getLibraryFacets = (entries: LibraryEntry[]): { categories: string[], speakers: string[] } => {
+  const categories = new Set(entries.map(entry => entry.response.category || 'Geral'));
+  const speakers = new Set(entries.flatMap(entry => entry.response.segments.map(seg => seg.speaker).filter((s): s is string => !!s)));
+  const sorted = (values: Set<string>) => [...values].sort((a, b) => a.localeCompare(b, 'pt-BR'));
+  return { categories: sorted(categories), speakers: sorted(speakers) };
+};
+
+// --- PERGUNTAS SOBRE A BIBLIOTECA ---
+
+export interface LibrarySource {
+  entry: LibraryEntry;
+  segments: SegmentHit[]; // Em ordem de tempo, já com os vizinhos
+}
+
+// Limites do contexto enviado ao modelo
+const MAX_QA_SEGMENTS = 40;
+const MAX_QA_SOURCES = 8;
+// Segmentos vizinhos incluídos em volta de cada trecho relevante
+const QA_NEIGHBORS = 1;
+
+/**
+ * Escolhe os trechos mais relevantes para a pergunta em todas as transcrições,
+ * agrupados por fonte. A fonte N é citada pelo modelo como "[TN mm:ss]".
+ */
+export const selectSources = (entries: LibraryEntry[], question: string, filters: LibraryFilters = {}): LibrarySource[] => {
+  // Palavras curtas ("o", "de", "que") só atrapalham o ranking
+  const terms = tokenize(question).filter(term => term.length > 3);
+  if (terms.length === 0) return [];
+
+  const ranked = entries
+    .filter(entry => matchesFilters(entry, filters))
+    .flatMap(entry => scoreSegments(entry, terms, filters, 'any').map(hit => ({ entry, hit })))
+    .sort((a, b) => b.hit.score - a.hit.score)
+    .slice(0, MAX_QA_SEGMENTS);
+
+  const byEntry = new Map<LibraryEntry, Map<number, SegmentHit>>();
+  ranked.forEach(({ entry, hit }) => {
+    if (!byEntry.has(entry) && byEntry.size >= MAX_QA_SOURCES) return;
+    const hits = byEntry.get(entry) ?? new Map<number, SegmentHit>();
+    const segments = entry.response.segments;
+    for (let i = Math.max(0, hit.index - QA_NEIGHBORS); i <= Math.min(segments.length - 1, hit.index + QA_NEIGHBORS); i++) {
+      if (i === hit.index || !hits.has(i)) hits.set(i, { index: i, segment: segments[i], score: i === hit.index ? hit.score : 0 });
+    }
+    byEntry.set(entry, hits);
+  });
+
+  return [...byEntry].map(([entry, hits]) => ({ entry, segments: [...hits.values()].sort((a, b) => a.index - b.index) }));
+};
+
+/**
+ * Contexto do chat com várias transcrições: cabeçalho por fonte e
+ * uma linha por trecho, marcada com fonte e tempo ("[T2 03:40]").
+ */
+export const buildLibraryContext = (sources: LibrarySource[]): string =>
+  sources.map((source, i) => {
+    const header = `### T${i + 1}: ${source.entry.title} (${new Date(source.entry.createdAt).toLocaleDateString('pt-BR')})`;
+    const lines = source.segments.map(({ segment }) =>
+      `${formatCitation(segment.start, i + 1)} ${segment.speaker ? `${segment.speaker}: ` : ''}${segment.text}`);
+    return [header, ...lines].join('\n');
+  }).join('\n\n');
@@ -0,0 +1,146 @@
+import { LibraryEntry, TranscriptionResponse, TranscriptionWorkspace } from '../types';
+
+const DB_NAME = 'claria_ai';
+const DB_VERSION = 1;
+const STORE = 'transcriptions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Abre (e cria na primeira vez) o banco IndexedDB da biblioteca local
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error || new Error("Falha ao abrir a biblioteca local."));
+    };
+  });
+  return dbPromise;
+};
+
+// Helper para transformar uma IDBRequest em Promise dentro de uma transação
+const runRequest = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error || request.error);
+    tx.onabort = () => reject(tx.error || new Error("Operação cancelada na biblioteca local."));
+  });
+};
+
+/**
+ * Lê, altera e grava uma entrada na mesma transação: salvamentos simultâneos
+ * (ex: workspace e áudio anexado) não sobrescrevem os campos um do outro.
+ */
+const modifyEntry = async (id: string, change: (current: LibraryEntry) => LibraryEntry): Promise<LibraryEntry | null> => {
+  const db = await openDb();
+  return new Promise<LibraryEntry | null>((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    let updated: LibraryEntry | null = null;
+    const request = store.get(id);
+    request.onsuccess = () => {
+      const current = request.result as LibraryEntry | undefined;
+      if (!current) return;
+      updated = { ...change(current), id, updatedAt: Date.now() };
+      store.put(updated);
+    };
+    tx.oncomplete = () => resolve(updated);
+    tx.onerror = () => reject(tx.error || request.error);
+    tx.onabort = () => reject(tx.error || new Error("Operação cancelada na biblioteca local."));
+  });
+};
+
+const generateId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Salva um trabalho concluído (resposta + áudio original) na biblioteca.
+ * `extras` permite já gravar notas, traduções, resumos e capítulos (ex: ao importar um JSON).
+ */
+export const saveTranscription = async (
+  response: TranscriptionResponse,
+  audio: File | null,
+  sourceUrl?: string,
+  extras: Partial<Pick<LibraryEntry, 'notes' | 'translations' | 'summary' | 'meetingSummary' | 'chapters'>> = {}
+): Promise<LibraryEntry> => {
+  const now = Date.now();
+  const entry: LibraryEntry = {
+    id: generateId(),
+    title: response.metadata?.title || audio?.name || "Transcrição",
+    createdAt: now,
+    updatedAt: now,
+    response,
+    audio,
+    audioName: audio?.name,
+    sourceUrl,
+    notes: [],
+    summary: null,
+    meetingSummary: null,
+    chapters: null,
+    translations: {},
+    chatHistory: [],
+    ...extras
+  };
+  await runRequest('readwrite', store => store.put(entry));
+  return entry;
+};
+
+export const getTranscription = async (id: string): Promise<LibraryEntry | null> => {
+  const entry = await runRequest<LibraryEntry | undefined>('readonly', store => store.get(id));
+  return entry || null;
+};
+
+/**
+ * Lista todas as transcrições salvas, das mais recentes para as mais antigas.
+ */
+export const listTranscriptions = async (): Promise<LibraryEntry[]> => {
+  const entries = await runRequest<LibraryEntry[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Atualiza parcialmente uma entrada (notas, resumo, chat, título...).
+ */
+export const updateTranscription = async (
+  id: string,
+  patch: Partial<Omit<LibraryEntry, 'id' | 'createdAt'>>
+): Promise<LibraryEntry | null> =>
+  modifyEntry(id, current => ({ ...current, ...patch }));
+
+/**
+ * Persiste o estado de trabalho do TranscriptionDisplay. Texto e segmentos editados
+ * são gravados dentro da resposta para que reabrir mostre a versão corrigida.
+ */
+export const saveWorkspace = (id: string, workspace: TranscriptionWorkspace): Promise<LibraryEntry | null> => {
+  const { text, segments, ...rest } = workspace;
+  return modifyEntry(id, current => ({ ...current, ...rest, response: { ...current.response, text, segments } }));
+};
+
+export const renameTranscription = (id: string, title: string) => updateTranscription(id, { title: title.trim() || "Transcrição" });
+
+export const deleteTranscription = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+/**
+ * Reconstrói o File original a partir do Blob salvo para o player de áudio.
+ */
+export const getEntryAudioFile = (entry: LibraryEntry): File | null => {
+  if (!entry.audio) return null;
+  if (entry.audio instanceof File) return entry.audio;
+  return new File([entry.audio], entry.audioName || 'audio', { type: entry.audio.type });
+};
@@ -1 +1,222 @@
-// This file is no longer used. Real integration is in transcriptionService.ts
\ No newline at end of file
+import { TranscriptionResponse, TranscriptionSegment, ChatMessage, ChatOptions, Chapter, Metadata, MeetingSummary, TranscriptionProvider, TranscriptionOptions, WordTiming } from '../types';
+import { delay } from './cancellation';
+import { normalizeChapters } from './chapters';
+import { splitWords, withoutWords } from './wordTimings';
+
+// Provedor offline e determinístico: mesma entrada => mesma saída.
+// Útil para desenvolver a interface e rodar testes sem API key nem rede.
+
+const STEP_DELAY_MS = 250;
+const SEGMENT_SECONDS = 6;
+
+const MOCK_SENTENCES = [
+  "Olá pessoal, sejam bem-vindos à nossa reunião de hoje.",
+  "Vamos começar revisando os pontos pendentes da semana passada.",
+  "O relatório financeiro foi concluído e enviado para a diretoria.",
+  "Ainda precisamos definir o prazo de entrega do novo projeto.",
+  "Eu sugiro que a gente marque uma conversa com o cliente na sexta-feira.",
+  "Concordo, e podemos aproveitar para apresentar o protótipo.",
+  "Alguém tem alguma dúvida sobre o cronograma?",
+  "Por enquanto não, mas vou revisar os detalhes e aviso por e-mail.",
+  "Perfeito, então fica combinado assim.",
+  "Obrigado a todos pela participação."
+];
+
+const MOCK_CATEGORIES = ['Reunião', 'Entrevista', 'Ideias', 'Aula'];
+
+// Hash simples (djb2) para derivar uma "semente" estável da entrada
+const hashString = (value: string): number => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) hash = ((hash << 5) + hash + value.charCodeAt(i)) >>> 0;
+  return hash;
+};
+
+// Palavras com duração proporcional ao tamanho e confiança "sorteada" pela semente
+const buildWords = (seg: TranscriptionSegment, seed: number): WordTiming[] => {
+  const tokens = splitWords(seg.text);
+  const total = tokens.reduce((sum, token) => sum + token.length, 0);
+  const perChar = (seg.end - seg.start) / total;
+  let cursor = seg.start;
+  return tokens.map(token => {
+    const start = cursor;
+    cursor += token.length * perChar;
+    return {
+      text: token,
+      start: Math.round(start * 1000) / 1000,
+      end: Math.round(cursor * 1000) / 1000,
+      confidence: 0.5 + (hashString(`${seed}:${start}:${token}`) % 50) / 100
+    };
+  });
+};
+
+const buildSegments = (seed: number, count: number, wordTimings?: boolean): TranscriptionSegment[] =>
+  Array.from({ length: count }, (_, i) => {
+    const seg = {
+      start: i * SEGMENT_SECONDS,
+      end: (i + 1) * SEGMENT_SECONDS - 0.5,
+      text: MOCK_SENTENCES[(seed + i) % MOCK_SENTENCES.length],
+      speaker: `Locutor ${(i % 2) + 1}`
+    };
+    return wordTimings ? { ...seg, words: buildWords(seg, seed) } : seg;
+  });
+
+const splitSentences = (text: string): string[] =>
+  text.split(/(?<=[.!?])\s+/).map(s => s.trim()).filter(Boolean);
+
+const generateMetadata = async (text: string, signal?: AbortSignal): Promise<Metadata> => {
+  await delay(STEP_DELAY_MS, signal);
+  const first = splitSentences(text)[0] || "Transcrição";
+  return {
+    title: `[Mock] ${first.slice(0, 60)}`,
+    description: `Transcrição simulada com ${splitSentences(text).length} frases.`
+  };
+};
+
+const transcribeAudio = async (file: File, options: TranscriptionOptions = {}): Promise<TranscriptionResponse> => {
+  const { onProgress, signal } = options;
+  const seed = hashString(`${file.name}:${file.size}`);
+  // Entre 4 e 12 segmentos, proporcional ao tamanho do arquivo
+  const count = Math.min(12, Math.max(4, Math.round(file.size / (256 * 1024))));
+
+  onProgress?.({ stage: 'reading', fraction: 0 });
+  await delay(STEP_DELAY_MS, signal);
+
+  // Um "trecho" simulado a cada 4 segmentos
+  const steps = Math.ceil(count / 4);
+  for (let i = 0; i < steps; i++) {
+    onProgress?.({ stage: 'transcribing', fraction: 0.05 + 0.8 * (i / steps), current: i + 1, total: steps });
+    await delay(STEP_DELAY_MS, signal);
+  }
+
+  const segments = buildSegments(seed, count, options.wordTimings);
+  const text = segments.map(seg => seg.text).join(' ');
+  onProgress?.({ stage: 'metadata', fraction: 0.85 });
+  const metadata = await generateMetadata(text, signal);
+  onProgress?.({ stage: 'metadata', fraction: 1 });
+
+  // Categorias do perfil, quando houver, como no provedor real
+  const categories = options.profile?.categories.length ? options.profile.categories : MOCK_CATEGORIES;
+  return {
+    text,
+    category: categories[seed % categories.length],
+    language: options.language || 'pt',
+    metadata,
+    segments,
+    confidence: 1.0
+  };
+};
+
+const transcribeUrl = async (url: string, options: TranscriptionOptions = {}): Promise<TranscriptionResponse> => {
+  const { onProgress, signal } = options;
+  onProgress?.({ stage: 'searching', fraction: 0.05, current: 1, total: 1 });
+  await delay(STEP_DELAY_MS * 2, signal);
+  onProgress?.({ stage: 'formatting', fraction: 0.6, current: 1, total: 1 });
+  await delay(STEP_DELAY_MS, signal);
+  onProgress?.({ stage: 'formatting', fraction: 1, current: 1, total: 1 });
+  const seed = hashString(url);
+  const segments = buildSegments(seed, 8);
+  const categories = options.profile?.categories;
+  return {
+    text: segments.map(seg => seg.text).join(' '),
+    category: categories?.length ? categories[seed % categories.length] : "YouTube",
+    language: options.language || 'pt',
+    metadata: { title: "[Mock] Vídeo do YouTube", description: `Transcrição simulada de ${url}` },
+    segments,
+    confidence: 0.90
+  };
+};
+
+const transcribeChunk = async (audio: Blob, options: TranscriptionOptions = {}): Promise<TranscriptionSegment[]> => {
+  await delay(STEP_DELAY_MS, options.signal);
+  return buildSegments(audio.size, 2, options.wordTimings);
+};
+
+const generateSummary = async (text: string, signal?: AbortSignal): Promise<string> => {
+  await delay(STEP_DELAY_MS, signal);
+  return splitSentences(text).slice(0, 5).map(sentence => `- ${sentence}`).join('\n');
+};
+
+// Classificação por palavras-chave, suficiente para exercitar a interface da ata
+const ACTION_PATTERN = /\b(vou|vamos|precisamos|marque|enviar)\b/i;
+const DECISION_PATTERN = /\b(combinado|concordo|decidimos|aprovado)\b/i;
+const DUE_DATE_PATTERN = /\b(segunda|terça|quarta|quinta|sexta)-feira\b|\b\d{1,2}\/\d{1,2}\b/i;
+
+const generateMeetingSummary = async (segments: TranscriptionSegment[], signal?: AbortSignal): Promise<MeetingSummary> => {
+  await delay(STEP_DELAY_MS, signal);
+  const pick = (test: (seg: TranscriptionSegment) => boolean) =>
+    segments.filter(test).map(seg => ({ text: seg.text, start: seg.start }));
+  return {
+    overview: `Reunião simulada com ${segments.length} falas.`,
+    actionItems: segments.filter(seg => ACTION_PATTERN.test(seg.text)).map(seg => ({
+      text: seg.text,
+      start: seg.start,
+      owner: seg.speaker,
+      dueDate: seg.text.match(DUE_DATE_PATTERN)?.[0]
+    })),
+    decisions: pick(seg => DECISION_PATTERN.test(seg.text)),
+    questions: pick(seg => seg.text.trim().endsWith('?')),
+    topics: segments.slice(0, 3).map(seg => ({ text: seg.text, start: seg.start }))
+  };
+};
+
+// Um capítulo a cada 4 segmentos, com as primeiras palavras como título
+const MOCK_CHAPTER_SEGMENTS = 4;
+
+const generateChapters = async (segments: TranscriptionSegment[], signal?: AbortSignal): Promise<Chapter[]> => {
+  await delay(STEP_DELAY_MS, signal);
+  const chapters = segments
+    .filter((_, i) => i % MOCK_CHAPTER_SEGMENTS === 0)
+    .map(seg => ({ title: seg.text.split(/\s+/).slice(0, 4).join(' ').replace(/[.,!?]+$/, ''), start: seg.start }));
+  return normalizeChapters(chapters, segments);
+};
+
+const translateSegments = async (segments: TranscriptionSegment[], targetLanguage: string, signal?: AbortSignal): Promise<TranscriptionSegment[]> => {
+  await delay(STEP_DELAY_MS, signal);
+  return segments.map(seg => ({ ...withoutWords(seg), text: `[${targetLanguage.toUpperCase()}] ${seg.text}` }));
+};
+
+const refineText = async (text: string, signal?: AbortSignal): Promise<string> => {
+  await delay(STEP_DELAY_MS, signal);
+  return splitSentences(text.replace(/\s+/g, ' '))
+    .map(sentence => sentence.charAt(0).toUpperCase() + sentence.slice(1))
+    .join(' ');
+};
+
+// Pausa entre palavras da resposta "em streaming"
+const WORD_DELAY_MS = 30;
+
+// Responde citando a linha do contexto ("[mm:ss] texto" ou "[T1 mm:ss] texto") que mais compartilha palavras com a pergunta
+const sendChatMessage = async (history: ChatMessage[], context: string, question: string, options: ChatOptions = {}): Promise<string> => {
+  await delay(STEP_DELAY_MS, options.signal);
+  const words = question.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(w => w.length > 3);
+  const best = context.split('\n')
+    .map(line => line.match(/^(\[[^\]]+\])\s*(.*)$/) ?? [line, '', line])
+    .map(([, citation, sentence]) => ({ citation, sentence, score: words.filter(w => sentence.toLowerCase().includes(w)).length }))
+    .sort((a, b) => b.score - a.score)[0];
+
+  const answer = !best || best.score === 0
+    ? "Não encontrei essa informação no texto."
+    : `Segundo o texto${best.citation ? ` ${best.citation}` : ''}: "${best.sentence}"`;
+
+  let streamed = '';
+  for (const word of answer.split(/(?<=\s)/)) {
+    await delay(WORD_DELAY_MS, options.signal);
+    streamed += word;
+    options.onChunk?.(streamed);
+  }
+  return answer;
+};
+
+export const mockProvider: TranscriptionProvider = {
+  name: 'mock',
+  transcribeAudio,
+  transcribeUrl,
+  transcribeChunk,
+  generateMetadata,
+  generateSummary,
+  generateMeetingSummary,
+  generateChapters,
+  translateSegments,
+  refineText,
+  sendChatMessage
+};
@@ -0,0 +1,127 @@
+import { PromptProfile } from '../types';
+import { ObjectSchema, checkSchema } from './responseValidator';
+
+// Perfis de prompt (localStorage): instruções, vocabulário, modelo de resumo,
+// categorias e modelo do Gemini por caso de uso. O perfil ativo é escolhido no upload.
+
+const STORAGE_KEY = 'claria_ai_profiles';
+const ACTIVE_KEY = 'claria_ai_active_profile';
+
+export const DEFAULT_TRANSCRIPTION_PROMPT = `Você é um estenógrafo profissional.
+Sua tarefa é transcrever EXATAMENTE o que é dito no áudio.`;
+
+export const DEFAULT_SUMMARY_TEMPLATE = "Resuma em tópicos principais:";
+
+// Perfis iniciais; depois de editados, valem os salvos pelo usuário
+export const BUILT_IN_PROFILES: PromptProfile[] = [
+  {
+    id: 'geral',
+    name: 'Geral',
+    transcriptionPrompt: DEFAULT_TRANSCRIPTION_PROMPT,
+    vocabulary: [],
+    summaryTemplate: DEFAULT_SUMMARY_TEMPLATE,
+    categories: []
+  },
+  {
+    id: 'consulta-medica',
+    name: 'Consulta médica',
+    transcriptionPrompt: `Você é um transcritor médico profissional.
+Transcreva EXATAMENTE a consulta, preservando termos clínicos, nomes de medicamentos, doses, unidades e valores de exames.
+Sempre que possível, identifique o médico e o paciente como locutores distintos.`,
+    vocabulary: [],
+    summaryTemplate: `Resuma a consulta no formato SOAP (Subjetivo, Objetivo, Avaliação, Plano).
+Liste os medicamentos com dose e posologia e os exames solicitados.`,
+    categories: ['Primeira consulta', 'Retorno', 'Resultado de exames', 'Procedimento']
+  },
+  {
+    id: 'audiencia',
+    name: 'Audiência judicial',
+    transcriptionPrompt: `Você é um transcritor judicial.
+Transcreva de forma literal e integral, inclusive hesitações e interrupções que mudem o sentido da fala.
+Diferencie juiz, advogados, partes e testemunhas como locutores distintos.`,
+    vocabulary: [],
+    summaryTemplate: `Resuma a audiência: partes presentes, pedidos, principais pontos de cada depoimento,
+decisões proferidas e próximos prazos.`,
+    categories: ['Instrução', 'Conciliação', 'Depoimento', 'Julgamento']
+  },
+  {
+    id: 'podcast',
+    name: 'Podcast',
+    transcriptionPrompt: `Você transcreve episódios de podcast.
+Transcreva EXATAMENTE o que é dito, com pontuação que facilite a leitura.
+Quando apresentadores ou convidados se apresentarem, mantenha a mesma numeração de locutor para cada um.`,
+    vocabulary: [],
+    summaryTemplate: `Escreva as notas do episódio: um parágrafo de resumo, os tópicos discutidos,
+os convidados e os livros, links ou recursos mencionados.`,
+    categories: ['Entrevista', 'Bate-papo', 'Notícias', 'Educação']
+  }
+];
+
+const PROFILE_SCHEMA: ObjectSchema = {
+  id: { type: 'string', required: true },
+  name: { type: 'string', required: true },
+  transcriptionPrompt: { type: 'string', required: true },
+  vocabulary: { type: 'array', required: true },
+  summaryTemplate: { type: 'string', required: true },
+  categories: { type: 'array', required: true },
+  model: { type: 'string' },
+  wordTimings: { type: 'boolean' }
+};
+
+const isProfile = (value: unknown): value is PromptProfile => checkSchema(value, PROFILE_SCHEMA).length === 0;
+
+export const loadProfiles = (): PromptProfile[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    const valid = Array.isArray(parsed) ? parsed.filter(isProfile) : [];
+    return valid.length > 0 ? valid : BUILT_IN_PROFILES;
+  } catch {
+    return BUILT_IN_PROFILES;
+  }
+};
+
+export const saveProfiles = (profiles: PromptProfile[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    console.warn("Não foi possível salvar os perfis:", error);
+  }
+};
+
+export const getProfile = (id?: string): PromptProfile | undefined =>
+  id ? loadProfiles().find(profile => profile.id === id) : undefined;
+
+export const getActiveProfile = (): PromptProfile => {
+  const profiles = loadProfiles();
+  return profiles.find(profile => profile.id === localStorage.getItem(ACTIVE_KEY)) ?? profiles[0];
+};
+
+export const setActiveProfileId = (id: string) => {
+  try {
+    localStorage.setItem(ACTIVE_KEY, id);
+  } catch (error) {
+    console.warn("Não foi possível salvar o perfil ativo:", error);
+  }
+};
+
+const generateId = (): string => `perfil-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * Novo perfil a partir de outro (ou do padrão), com id próprio.
+ */
+export const createProfile = (base: PromptProfile = BUILT_IN_PROFILES[0], name = `${base.name} (cópia)`): PromptProfile =>
+  ({ ...base, id: generateId(), name });
+
+export const exportProfiles = (profiles: PromptProfile[]): string => JSON.stringify(profiles, null, 2);
+
+/**
+ * Lê perfis exportados. Ids repetidos ganham um id novo para não sobrescrever os existentes.
+ */
+export const importProfiles = (content: string, existing: PromptProfile[]): PromptProfile[] => {
+  const parsed: unknown = JSON.parse(content);
+  const items = Array.isArray(parsed) ? parsed : [parsed];
+  const valid = items.filter(isProfile);
+  if (valid.length === 0) throw new Error("Nenhum perfil válido encontrado no arquivo.");
+  const ids = new Set(existing.map(profile => profile.id));
+  return [...existing, ...valid.map(profile => ids.has(profile.id) ? { ...profile, id: generateId() } : profile)];
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { findSilences, realignSegments } from './realignment';
+import { Waveform } from './waveform';
+
+const PEAKS_PER_SECOND = 50;
+
+// Forma de onda sintética: fala (0.5) com os silêncios indicados (quase zero)
+const buildWaveform = (duration: number, silences: [number, number][]): Waveform => {
+  const peaks = new Float32Array(duration * PEAKS_PER_SECOND);
+  for (let i = 0; i < peaks.length; i++) {
+    const time = i / PEAKS_PER_SECOND;
+    peaks[i] = silences.some(([from, to]) => time >= from && time < to) ? 0.005 : 0.5;
+  }
+  return { peaks, peaksPerSecond: PEAKS_PER_SECOND, duration };
+};
+
+describe('findSilences', () => {
+  it('encontra os trechos quietos e ignora pausas curtas', () => {
+    const waveform = buildWaveform(10, [[2, 3], [5, 5.1], [8, 10]]);
+    expect(findSilences(waveform)).toEqual([{ start: 2, end: 3 }, { start: 8, end: 10 }]);
+  });
+});
+
+describe('realignSegments', () => {
+  const waveform = buildWaveform(8, [[2, 3], [6, 8]]);
+
+  it('leva a fronteira para o silêncio e fecha a sobreposição', () => {
+    const { segments, adjusted } = realignSegments([
+      { start: 0, end: 2.6, text: 'a' },
+      { start: 2.4, end: 5.5, text: 'b' }
+    ], waveform);
+    expect(segments).toEqual([
+      { start: 0, end: 2.05, text: 'a' },
+      { start: 2.95, end: 6.05, text: 'b' }
+    ]);
+    expect(adjusted).toBe(2);
+  });
+
+  it('sem silêncio por perto, os segmentos se encontram no meio', () => {
+    const speech = buildWaveform(8, []);
+    const { segments } = realignSegments([
+      { start: 0, end: 3, text: 'a' },
+      { start: 2, end: 6, text: 'b' }
+    ], speech);
+    expect(segments[0].end).toBe(2.5);
+    expect(segments[1].start).toBe(2.5);
+  });
+
+  it('mantém a ordem do texto quando os tempos vêm fora de ordem', () => {
+    const { segments } = realignSegments([
+      { start: 0, end: 2, text: 'a' },
+      { start: 1, end: 1.5, text: 'b' },
+      { start: 3, end: 5, text: 'c' }
+    ], buildWaveform(8, []));
+    segments.forEach((seg, i) => {
+      expect(seg.end).toBeGreaterThan(seg.start);
+      if (i > 0) expect(seg.start).toBeGreaterThanOrEqual(segments[i - 1].end);
+    });
+  });
+
+  it('devolve o mesmo objeto para o segmento que não mudou', () => {
+    const original = [{ start: 0, end: 2.05, text: 'a' }, { start: 2.95, end: 6.05, text: 'b' }];
+    const { segments, adjusted } = realignSegments(original, waveform);
+    expect(segments[0]).toBe(original[0]);
+    expect(segments[1]).toBe(original[1]);
+    expect(adjusted).toBe(0);
+  });
+
+  it('mantém os tempos por palavra dentro do segmento ajustado', () => {
+    const { segments } = realignSegments([
+      { start: 0, end: 2.6, text: 'a b', words: [{ text: 'a', start: 0.2, end: 1 }, { text: 'b', start: 1.5, end: 2.5 }] },
+      { start: 2.4, end: 5.5, text: 'c' }
+    ], waveform);
+    expect(segments[0].words).toEqual([{ text: 'a', start: 0.2, end: 1 }, { text: 'b', start: 1.5, end: 2.05 }]);
+  });
+
+  it('lista vazia não muda nada', () => {
+    expect(realignSegments([], waveform)).toEqual({ segments: [], adjusted: 0 });
+  });
+});
@@ -0,0 +1,127 @@
+import { TranscriptionSegment } from '../types';
+import { Waveform } from './waveform';
+import { fitSegmentWords } from './wordTimings';
+
+// Realinhamento dos tempos do modelo ao áudio: as fronteiras entre segmentos
+// vão para o silêncio mais próximo, e sobreposições e buracos são fechados.
+
+export interface Silence {
+  start: number;
+  end: number;
+}
+
+// Pausas mais curtas que isto não contam como fronteira de fala
+const MIN_SILENCE_SECONDS = 0.25;
+// Distância máxima que uma fronteira pode andar até um silêncio
+const MAX_SHIFT_SECONDS = 2;
+const MIN_SEGMENT_SECONDS = 0.2;
+// Folga deixada dentro do silêncio para não cortar o fim/início das palavras
+const EDGE_PADDING = 0.05;
+// Limites do nível de silêncio (picos normalizados de 0 a 1)
+const MIN_THRESHOLD = 0.02;
+const MAX_THRESHOLD = 0.2;
+// Diferença mínima para contar um segmento como ajustado
+const CHANGE_TOLERANCE = 0.05;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// Nível abaixo do qual é silêncio: um múltiplo do ruído de fundo (10º percentil)
+const silenceThreshold = (peaks: Float32Array): number => {
+  const sorted = Float32Array.from(peaks).sort();
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)] ?? 0;
+  return Math.min(MAX_THRESHOLD, Math.max(MIN_THRESHOLD, noiseFloor * 3));
+};
+
+/**
+ * Trechos de silêncio do áudio, em ordem.
+ */
+export const findSilences = (waveform: Waveform, minSeconds = MIN_SILENCE_SECONDS): Silence[] => {
+  const { peaks, peaksPerSecond } = waveform;
+  const threshold = silenceThreshold(peaks);
+  const silences: Silence[] = [];
+  let from = -1;
+  for (let i = 0; i <= peaks.length; i++) {
+    const quiet = i < peaks.length && peaks[i] < threshold;
+    if (quiet && from < 0) from = i;
+    if (!quiet && from >= 0) {
+      if ((i - from) / peaksPerSecond >= minSeconds) {
+        silences.push({ start: from / peaksPerSecond, end: Math.min(i / peaksPerSecond, waveform.duration) });
+      }
+      from = -1;
+    }
+  }
+  return silences;
+};
+
+// Distância entre um instante e um silêncio (zero se estiver dentro dele)
+const distanceTo = (time: number, silence: Silence): number =>
+  time < silence.start ? silence.start - time : time > silence.end ? time - silence.end : 0;
+
+const closest = (silences: Silence[], distance: (silence: Silence) => number): Silence | undefined =>
+  silences.reduce<Silence | undefined>((best, silence) => {
+    const d = distance(silence);
+    return d <= MAX_SHIFT_SECONDS && (!best || d < distance(best)) ? silence : best;
+  }, undefined);
+
+/**
+ * Mantém a ordem do texto e faz os tempos acompanharem: um segmento que
+ * começa antes do anterior passa a começar logo depois dele.
+ */
+const enforceOrder = (segments: TranscriptionSegment[], duration: number): TranscriptionSegment[] => {
+  const ordered: TranscriptionSegment[] = [];
+  segments.forEach(seg => {
+    const prev = ordered[ordered.length - 1];
+    const start = Math.min(duration, prev ? Math.max(seg.start, prev.start + MIN_SEGMENT_SECONDS) : Math.max(0, seg.start));
+    ordered.push({ ...seg, start, end: Math.min(duration, Math.max(seg.end, start + MIN_SEGMENT_SECONDS)) });
+  });
+  return ordered;
+};
+
+/**
+ * Ajusta os tempos dos segmentos ao áudio. Cada fronteira vai para o silêncio
+ * mais próximo (até MAX_SHIFT_SECONDS); sem silêncio por perto, os dois
+ * segmentos se encontram no meio, sem sobreposição nem buraco.
+ */
+export const realignSegments = (
+  segments: TranscriptionSegment[],
+  waveform: Waveform
+): { segments: TranscriptionSegment[], adjusted: number } => {
+  if (segments.length === 0) return { segments, adjusted: 0 };
+  const silences = findSilences(waveform);
+  const result = enforceOrder(segments, waveform.duration);
+
+  for (let i = 0; i < result.length - 1; i++) {
+    const a = result[i];
+    const b = result[i + 1];
+    const middle = (a.end + b.start) / 2;
+    const silence = closest(
+      silences.filter(s => s.end > a.start + MIN_SEGMENT_SECONDS && s.start < b.end - MIN_SEGMENT_SECONDS),
+      s => distanceTo(middle, s)
+    );
+    if (silence) {
+      a.end = Math.max(a.start + MIN_SEGMENT_SECONDS, Math.min(silence.start + EDGE_PADDING, silence.end));
+      b.start = Math.min(b.end - MIN_SEGMENT_SECONDS, Math.max(a.end, silence.end - EDGE_PADDING));
+    } else {
+      const boundary = Math.min(b.end - MIN_SEGMENT_SECONDS, Math.max(a.start + MIN_SEGMENT_SECONDS, middle));
+      a.end = boundary;
+      b.start = boundary;
+    }
+  }
+
+  // Pontas: início da primeira fala e fim da última
+  const first = result[0];
+  const leading = closest(silences.filter(s => s.end < first.end - MIN_SEGMENT_SECONDS), s => Math.abs(s.end - first.start));
+  if (leading) first.start = Math.max(0, leading.end - EDGE_PADDING);
+  const last = result[result.length - 1];
+  const trailing = closest(silences.filter(s => s.start > last.start + MIN_SEGMENT_SECONDS), s => Math.abs(s.start - last.end));
+  if (trailing) last.end = Math.min(waveform.duration, trailing.start + EDGE_PADDING);
+
+  const realigned = result.map((seg, i) => {
+    const start = round(seg.start);
+    const end = round(seg.end);
+    return start === segments[i].start && end === segments[i].end ? segments[i] : fitSegmentWords({ ...seg, start, end });
+  });
+  const adjusted = realigned.filter((seg, i) =>
+    Math.abs(seg.start - segments[i].start) > CHANGE_TOLERANCE || Math.abs(seg.end - segments[i].end) > CHANGE_TOLERANCE).length;
+  return { segments: realigned, adjusted };
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { checkArraySchema, checkSchema, findTimingIssues, normalizeSegments, segmentResponseValidator, validateJsonText } from './responseValidator';
+
+describe('checkSchema', () => {
+  const schema = { text: { type: 'string' as const, required: true }, confidence: { type: 'number' as const } };
+
+  it('lista campos ausentes e tipos errados', () => {
+    expect(checkSchema({ confidence: '0.9' }, schema)).toEqual([
+      'text: campo obrigatório ausente',
+      'confidence: esperado number, recebido string'
+    ]);
+    expect(checkSchema({ text: 'ok' }, schema)).toEqual([]);
+    expect(checkSchema([], schema)).toEqual(['resposta: esperado um objeto']);
+  });
+
+  it('indica a posição de cada item do array', () => {
+    expect(checkArraySchema([{ text: 'a' }, { text: 1 }], schema, 'segments')).toEqual(['segments[1].text: esperado string, recebido number']);
+  });
+});
+
+describe('findTimingIssues', () => {
+  it('aponta tempos ausentes, além do áudio e fora de ordem', () => {
+    expect(findTimingIssues([
+      { start: 2, end: 3, text: 'a' },
+      { start: 'x', end: 3, text: 'b' },
+      { start: 1, end: 2, text: 'c' },
+      { start: 90, end: 95, text: 'd' }
+    ], 60)).toEqual([
+      'segmento 1: tempo ausente ou inválido',
+      'segmento 2: começa em 1s, antes do segmento anterior (2s)',
+      'segmento 3: começa em 90s, depois do fim do áudio (60s)'
+    ]);
+  });
+
+  it('aceita tempos em texto e "mm:ss"', () => {
+    expect(findTimingIssues([{ start: '0', end: '1.5', text: 'a' }, { start: '00:02', end: '00:04.5', text: 'b' }], 10)).toEqual([]);
+  });
+});
+
+describe('normalizeSegments', () => {
+  it('converte os tempos e descarta itens sem texto', () => {
+    expect(normalizeSegments([{ start: '00:01', end: '2.5', text: ' Olá ', speaker: ' Ana ' }, { start: 3, end: 4, text: '' }, 'lixo'])).toEqual([
+      { start: 1, end: 2.5, text: 'Olá', speaker: 'Ana' }
+    ]);
+  });
+
+  it('corrige sobreposições e fins invertidos sem aviso', () => {
+    expect(normalizeSegments([
+      { start: 0, end: 5, text: 'a' },
+      { start: 4, end: 3, text: 'b' },
+      { start: 8, end: 10, text: 'c' }
+    ])).toEqual([
+      { start: 0, end: 5, text: 'a' },
+      { start: 5, end: 8, text: 'b' },
+      { start: 8, end: 10, text: 'c' }
+    ]);
+  });
+
+  it('estima o tempo ausente e marca o segmento', () => {
+    const [, missing] = normalizeSegments([{ start: 0, end: 2, text: 'a' }, { text: 'b' }]);
+    expect(missing).toEqual({ start: 2, end: 4, text: 'b', issue: 'Tempo ausente (estimado)' });
+  });
+
+  it('marca segmentos fora de ordem e limita à duração do áudio', () => {
+    const result = normalizeSegments([
+      { start: 5, end: 8, text: 'a' },
+      { start: 2, end: 3, text: 'b' },
+      { start: 9, end: 20, text: 'c' }
+    ], 12);
+    expect(result[1]).toEqual({ start: 8, end: 9, text: 'b', issue: 'Tempo fora de ordem' });
+    expect(result[2]).toEqual({ start: 9, end: 12, text: 'c' });
+  });
+
+  it('segmentos depois do fim do áudio ocupam o final, sem duração zero', () => {
+    const result = normalizeSegments([
+      { start: 0, end: 9.8, text: 'a' },
+      { start: 15, end: 17, text: 'b' },
+      { start: 18, end: 19, text: 'c' }
+    ], 10);
+    expect(result).toEqual([
+      { start: 0, end: 9, text: 'a' },
+      { start: 9, end: 9.5, text: 'b', issue: 'Tempo além da duração do áudio' },
+      { start: 9.5, end: 10, text: 'c', issue: 'Tempo além da duração do áudio' }
+    ]);
+  });
+
+  it('mantém só os tempos por palavra que batem com o texto', () => {
+    const [kept, dropped] = normalizeSegments([
+      { start: 0, end: 2, text: 'bom dia', words: [{ start: 0, end: 0.8, confidence: 1.4 }, { start: 0.9, end: 3 }] },
+      { start: 2, end: 4, text: 'tudo bem', words: [{ start: 2, end: 3 }] }
+    ]);
+    expect(kept.words).toEqual([{ text: 'bom', start: 0, end: 0.8, confidence: 1 }, { text: 'dia', start: 0.9, end: 2 }]);
+    expect(dropped.words).toBeUndefined();
+  });
+});
+
+describe('segmentResponseValidator', () => {
+  it('separa erros de esquema e avisos de tempo', () => {
+    const validate = segmentResponseValidator({ segments: { type: 'array', required: true } }, 10);
+    expect(validateJsonText('{"segments":[{"start":30,"end":31,"text":"a"}]}', validate).report).toEqual({
+      errors: [],
+      warnings: ['segmento 0: começa em 30s, depois do fim do áudio (10s)']
+    });
+    expect(validateJsonText('{segments', validate).report.errors).toEqual(['o texto não é um JSON válido']);
+  });
+});
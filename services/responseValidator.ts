@@ -0,0 +1,183 @@
+import { TranscriptionSegment } from '../types';
+import { parseTimestamp } from './importService';
+import { fitSegmentWords, normalizeWords } from './wordTimings';
+
+// Validação em tempo de execução das respostas JSON do modelo.
+
+export interface FieldRule {
+  type: 'string' | 'number' | 'boolean' | 'array' | 'object';
+  required?: boolean;
+}
+
+export type ObjectSchema = Record<string, FieldRule>;
+
+// Folga aceita além da duração real do áudio (segundos)
+const DURATION_TOLERANCE = 1;
+// Duração atribuída a segmentos sem fim válido
+const FALLBACK_SEGMENT_SECONDS = 2;
+// Trecho dado, no fim do áudio, a segmentos que começam depois dele
+const TAIL_SEGMENT_SECONDS = 1;
+// Quantos problemas são listados no pedido de reparo
+const MAX_REPORTED_ISSUES = 20;
+
+const typeOf = (value: unknown): FieldRule['type'] | 'null' | 'other' => {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isFinite(value) ? 'number' : 'other';
+  if (typeof value === 'string' || typeof value === 'boolean' || typeof value === 'object') return typeof value as 'string' | 'boolean' | 'object';
+  return 'other';
+};
+
+/**
+ * Lista os campos ausentes ou com tipo errado (vazio = válido).
+ */
+export const checkSchema = (value: unknown, schema: ObjectSchema, path = ''): string[] => {
+  if (typeOf(value) !== 'object') return [`${path || 'resposta'}: esperado um objeto`];
+  const record = value as Record<string, unknown>;
+  return Object.entries(schema).flatMap(([field, rule]) => {
+    const actual = typeOf(record[field]);
+    if (actual === 'null') return rule.required ? [`${path}${field}: campo obrigatório ausente`] : [];
+    return actual === rule.type ? [] : [`${path}${field}: esperado ${rule.type}, recebido ${actual}`];
+  });
+};
+
+/**
+ * Checa um array de objetos com o mesmo esquema (ex: lista de segmentos).
+ */
+export const checkArraySchema = (value: unknown, schema: ObjectSchema, path = 'itens'): string[] => {
+  if (!Array.isArray(value)) return [`${path}: esperado um array`];
+  return value.flatMap((item, i) => checkSchema(item, schema, `${path}[${i}].`));
+};
+
+// Aceita número, string numérica ou "mm:ss(.ms)"
+const toSeconds = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string' || !value.trim()) return NaN;
+  const trimmed = value.trim();
+  if (/^\d+(?:\.\d+)?$/.test(trimmed)) return Number(trimmed);
+  return /^(?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d+)?$/.test(trimmed) ? parseTimestamp(trimmed) : NaN;
+};
+
+interface CoercedSegment {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+  words?: unknown; // Conferidos só depois de fixar os tempos do segmento
+}
+
+const coerceSegments = (items: unknown[]): CoercedSegment[] =>
+  items
+    .filter((item): item is Record<string, unknown> => typeOf(item) === 'object')
+    .map(item => ({
+      start: toSeconds(item.start),
+      end: toSeconds(item.end),
+      text: typeof item.text === 'string' ? item.text.trim() : '',
+      ...(typeof item.speaker === 'string' && item.speaker.trim() ? { speaker: item.speaker.trim() } : {}),
+      ...(item.words !== undefined ? { words: item.words } : {})
+    }))
+    .filter(seg => seg.text);
+
+/**
+ * Problemas graves de tempo (justificam pedir correção ao modelo):
+ * tempo ausente, fora da duração do áudio ou fora de ordem.
+ */
+export const findTimingIssues = (items: unknown[], duration?: number): string[] => {
+  const issues: string[] = [];
+  let previousStart = -Infinity;
+  coerceSegments(items).forEach((seg, i) => {
+    if (!Number.isFinite(seg.start) || !Number.isFinite(seg.end)) issues.push(`segmento ${i}: tempo ausente ou inválido`);
+    else if (duration !== undefined && seg.start > duration + DURATION_TOLERANCE) issues.push(`segmento ${i}: começa em ${seg.start}s, depois do fim do áudio (${Math.round(duration)}s)`);
+    else if (seg.start < previousStart) issues.push(`segmento ${i}: começa em ${seg.start}s, antes do segmento anterior (${previousStart}s)`);
+    if (Number.isFinite(seg.start)) previousStart = Math.max(previousStart, seg.start);
+  });
+  return issues.slice(0, MAX_REPORTED_ISSUES);
+};
+
+/**
+ * Converte a lista do modelo em segmentos válidos, mantendo a ordem do texto:
+ * tempos crescentes, sem sobreposição e dentro de [0, duration].
+ * Sobreposições e fins invertidos são corrigidos sem aviso;
+ * o que não dá para corrigir com segurança fica marcado em `issue`.
+ */
+export const normalizeSegments = (items: unknown[], duration?: number): TranscriptionSegment[] => {
+  const coerced = coerceSegments(items);
+  const limit = duration ?? Infinity;
+  const result: TranscriptionSegment[] = [];
+
+  coerced.forEach((seg, i) => {
+    const prevEnd = result.length > 0 ? result[result.length - 1].end : 0;
+    const issues: string[] = [];
+    let { start, end } = seg;
+
+    if (!Number.isFinite(start)) {
+      issues.push('Tempo ausente (estimado)');
+      start = prevEnd;
+    } else if (start > limit + DURATION_TOLERANCE) {
+      issues.push('Tempo além da duração do áudio');
+    } else if (result.length > 0 && start < result[result.length - 1].start) {
+      issues.push('Tempo fora de ordem');
+    }
+    // Sobreposição com o anterior: começa onde o anterior termina
+    start = Math.min(Math.max(start, prevEnd, 0), limit);
+
+    // Fim ausente ou invertido: vai até o próximo início válido
+    if (!Number.isFinite(end) || end <= start) {
+      const nextStart = coerced.slice(i + 1).map(s => s.start).find(s => Number.isFinite(s) && s > start);
+      end = Math.min(nextStart ?? start + FALLBACK_SEGMENT_SECONDS, start + FALLBACK_SEGMENT_SECONDS * 5);
+    }
+    end = Math.min(end, limit);
+
+    // Começa depois do fim do áudio: em vez de ficar com duração zero (invisível
+    // na reprodução e nas legendas), ocupa o final, encurtando o anterior se preciso
+    if (start >= limit) {
+      const prev = result[result.length - 1];
+      start = Math.max(limit - TAIL_SEGMENT_SECONDS, prev ? (prev.start + prev.end) / 2 : 0);
+      end = limit;
+      if (prev && prev.end > start) result[result.length - 1] = fitSegmentWords({ ...prev, end: start });
+    }
+
+    const normalized: TranscriptionSegment = {
+      start,
+      end: Math.max(end, start),
+      text: seg.text,
+      ...(seg.speaker ? { speaker: seg.speaker } : {}),
+      ...(issues.length > 0 ? { issue: issues.join('; ') } : {})
+    };
+    const words = normalizeWords(seg.words, normalized);
+    result.push(words ? { ...normalized, words } : normalized);
+  });
+
+  return result;
+};
+
+// Erros impedem o uso da resposta; avisos só justificam pedir uma correção ao modelo
+export interface ValidationReport {
+  errors: string[];
+  warnings: string[];
+}
+
+export type ResponseValidator = (value: unknown) => ValidationReport;
+
+/**
+ * Faz o parse do texto JSON e aplica o validador.
+ */
+export const validateJsonText = (raw: string, validate: ResponseValidator): { value: unknown, report: ValidationReport } => {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return { value: undefined, report: { errors: ['o texto não é um JSON válido'], warnings: [] } };
+  }
+  return { value, report: validate(value) };
+};
+
+/**
+ * Validador para respostas com lista de segmentos: esquema do objeto + tempos
+ * coerentes com a duração real do áudio (quando conhecida).
+ */
+export const segmentResponseValidator = (schema: ObjectSchema, duration?: number): ResponseValidator => value => {
+  const errors = checkSchema(value, schema);
+  const segments = (value as { segments?: unknown } | null)?.segments;
+  return { errors, warnings: Array.isArray(segments) ? findTimingIssues(segments, duration) : [] };
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptionSegment } from '../types';
+import { deriveText, mergeWithNext, nudgeSegment, replaceInSegments, setSegmentEdge, splitSegment, updateSegmentText } from './segmentEditor';
+import { compileSearch } from './textSearch';
+
+const segments: TranscriptionSegment[] = [
+  { start: 0, end: 4, text: 'Bom dia a todos.', speaker: 'Locutor 1' },
+  { start: 5, end: 9, text: 'Vamos começar.', speaker: 'Locutor 2', issue: 'Tempo fora de ordem' },
+  { start: 10, end: 12, text: 'Certo.', speaker: 'Locutor 1' }
+];
+
+describe('deriveText', () => {
+  it('junta o texto dos segmentos', () => {
+    expect(deriveText(segments)).toBe('Bom dia a todos. Vamos começar. Certo.');
+  });
+});
+
+describe('updateSegmentText', () => {
+  it('troca o texto e limpa o aviso de validação', () => {
+    const result = updateSegmentText(segments, 1, 'Vamos lá.');
+    expect(result[1]).toEqual({ start: 5, end: 9, text: 'Vamos lá.', speaker: 'Locutor 2' });
+    expect(result[0]).toBe(segments[0]);
+  });
+
+  it('mantém os tempos por palavra quando o número de palavras não muda', () => {
+    const withWords = [{ start: 0, end: 2, text: 'oi gente', words: [{ text: 'oi', start: 0, end: 0.5 }, { text: 'gente', start: 0.6, end: 1.5 }] }];
+    expect(updateSegmentText(withWords, 0, 'oi, gente')[0].words).toEqual([{ text: 'oi,', start: 0, end: 0.5 }, { text: 'gente', start: 0.6, end: 1.5 }]);
+    expect(updateSegmentText(withWords, 0, 'olá a todos')[0].words).toBeUndefined();
+  });
+});
+
+describe('splitSegment', () => {
+  it('divide no caractere com tempo proporcional', () => {
+    const result = splitSegment(segments, 0, 8);
+    expect(result).toHaveLength(4);
+    expect(result[0]).toEqual({ start: 0, end: 2, text: 'Bom dia', speaker: 'Locutor 1' });
+    expect(result[1]).toEqual({ start: 2, end: 4, text: 'a todos.', speaker: 'Locutor 1' });
+  });
+
+  it('corta no início da palavra quando há tempos por palavra', () => {
+    const seg: TranscriptionSegment = {
+      start: 0,
+      end: 3,
+      text: 'um dois três',
+      words: [{ text: 'um', start: 0.1, end: 0.4 }, { text: 'dois', start: 0.5, end: 1 }, { text: 'três', start: 2.2, end: 2.8 }]
+    };
+    const [left, right] = splitSegment([seg], 0, 8);
+    expect(left).toMatchObject({ start: 0, end: 2.2, text: 'um dois' });
+    expect(right).toMatchObject({ start: 2.2, end: 3, text: 'três' });
+    expect(right.words).toEqual([{ text: 'três', start: 2.2, end: 2.8 }]);
+  });
+
+  it('ignora cortes nas pontas', () => {
+    expect(splitSegment(segments, 0, 0)).toBe(segments);
+    expect(splitSegment(segments, 0, segments[0].text.length)).toBe(segments);
+  });
+});
+
+describe('mergeWithNext', () => {
+  it('junta com o seguinte mantendo o locutor do primeiro', () => {
+    const result = mergeWithNext(segments, 0);
+    expect(result).toHaveLength(2);
+    expect(result[0]).toEqual({ start: 0, end: 9, text: 'Bom dia a todos. Vamos começar.', speaker: 'Locutor 1' });
+  });
+
+  it('não faz nada no último segmento', () => {
+    expect(mergeWithNext(segments, 2)).toBe(segments);
+  });
+});
+
+describe('nudgeSegment', () => {
+  it('desloca a borda pelo delta', () => {
+    expect(nudgeSegment(segments, 0, 'end', 0.5)[0].end).toBe(4.5);
+    expect(nudgeSegment(segments, 1, 'start', -0.5)[1].start).toBe(4.5);
+  });
+
+  it('não passa do fim do anterior nem do início do seguinte', () => {
+    expect(nudgeSegment(segments, 1, 'start', -3)[1].start).toBe(4);
+    expect(nudgeSegment(segments, 1, 'end', 3)[1].end).toBe(10);
+  });
+
+  it('não inverte o segmento', () => {
+    expect(nudgeSegment(segments, 2, 'start', 5)[2].start).toBeCloseTo(11.9);
+  });
+
+  it('setSegmentEdge usa os mesmos limites', () => {
+    expect(setSegmentEdge(segments, 1, 'start', 1)[1].start).toBe(4);
+    expect(setSegmentEdge(segments, 1, 'end', 8)[1].end).toBe(8);
+  });
+});
+
+describe('replaceInSegments', () => {
+  it('troca só o texto, sem diferenciar acentos', () => {
+    const { pattern } = compileSearch('comecar', { regex: false, wholeWord: false });
+    const result = replaceInSegments(segments, pattern, 'iniciar');
+    expect(result[1].text).toBe('Vamos iniciar.');
+    expect(result[0]).toBe(segments[0]);
+  });
+
+  it('respeita a lista de índices', () => {
+    const { pattern } = compileSearch('\\.$', { regex: true, wholeWord: false });
+    const result = replaceInSegments(segments, pattern, '!', [2]);
+    expect(result.map(seg => seg.text)).toEqual(['Bom dia a todos.', 'Vamos começar.', 'Certo!']);
+  });
+});
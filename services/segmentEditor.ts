@@ -0,0 +1,130 @@
+import { TranscriptionSegment } from '../types';
+import { replaceMatches } from './textSearch';
+import { fitSegmentWords, splitWords, withoutWords, withSegmentText } from './wordTimings';
+
+// Operações puras de edição de segmentos (sempre retornam um novo array)
+
+// Duração mínima de um segmento após ajustes (segundos)
+const MIN_SEGMENT_SECONDS = 0.1;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// Segmento revisado pelo usuário deixa de ser marcado como inválido
+const clearIssue = ({ issue, ...seg }: TranscriptionSegment): TranscriptionSegment => seg;
+
+/**
+ * O texto completo é sempre derivado dos segmentos.
+ */
+export const deriveText = (segments: TranscriptionSegment[]): string =>
+  segments.map(seg => seg.text.trim()).filter(Boolean).join(' ');
+
+export const updateSegmentText = (segments: TranscriptionSegment[], index: number, text: string): TranscriptionSegment[] =>
+  segments.map((seg, i) => i === index ? withSegmentText(clearIssue(seg), text) : seg);
+
+/**
+ * Divide um segmento na posição `charIndex` do texto. O tempo de corte
+ * é o início da primeira palavra da direita quando há tempos por palavra;
+ * senão, proporcional à posição do caractere dentro do segmento.
+ */
+export const splitSegment = (segments: TranscriptionSegment[], index: number, charIndex: number): TranscriptionSegment[] => {
+  const seg = segments[index];
+  if (!seg) return segments;
+  const left = seg.text.slice(0, charIndex).trim();
+  const right = seg.text.slice(charIndex).trim();
+  if (!left || !right) return segments;
+
+  const leftCount = splitWords(left).length;
+  // Corte no meio de uma palavra desfaz a correspondência com os tempos
+  const words = seg.words && leftCount + splitWords(right).length === seg.words.length ? seg.words : undefined;
+  if (words) {
+    const cut = words[leftCount].start;
+    return [
+      ...segments.slice(0, index),
+      { ...seg, end: cut, text: left, words: words.slice(0, leftCount) },
+      { ...seg, start: cut, text: right, words: words.slice(leftCount) },
+      ...segments.slice(index + 1)
+    ];
+  }
+
+  const ratio = charIndex / seg.text.length;
+  const cut = round(seg.start + (seg.end - seg.start) * ratio);
+  const base = withoutWords(seg);
+  return [
+    ...segments.slice(0, index),
+    { ...base, end: cut, text: left },
+    { ...base, start: cut, text: right },
+    ...segments.slice(index + 1)
+  ];
+};
+
+/**
+ * Junta o segmento `index` com o seguinte (mantém o locutor do primeiro).
+ */
+export const mergeWithNext = (segments: TranscriptionSegment[], index: number): TranscriptionSegment[] => {
+  const seg = segments[index];
+  const next = segments[index + 1];
+  if (!seg || !next) return segments;
+  const merged = { ...withoutWords(seg), end: Math.max(seg.end, next.end), text: `${seg.text.trim()} ${next.text.trim()}` };
+  return [
+    ...segments.slice(0, index),
+    seg.words && next.words ? { ...merged, words: [...seg.words, ...next.words] } : merged,
+    ...segments.slice(index + 2)
+  ];
+};
+
+/**
+ * Desloca o início ou o fim de um segmento em `delta` segundos,
+ * sem inverter o segmento nem passar do vizinho.
+ */
+export const nudgeSegment = (
+  segments: TranscriptionSegment[],
+  index: number,
+  edge: 'start' | 'end',
+  delta: number
+): TranscriptionSegment[] => {
+  const seg = segments[index];
+  if (!seg) return segments;
+  const prev = segments[index - 1];
+  const next = segments[index + 1];
+
+  if (edge === 'start') {
+    // Não avança sobre o anterior (se já havia sobreposição, só não piora)
+    const min = prev ? Math.min(prev.end, seg.start) : 0;
+    const start = round(Math.min(seg.end - MIN_SEGMENT_SECONDS, Math.max(min, seg.start + delta)));
+    return segments.map((s, i) => i === index ? fitSegmentWords({ ...clearIssue(s), start }) : s);
+  }
+
+  const max = next ? Math.max(next.start, seg.end) : Infinity;
+  const end = round(Math.max(seg.start + MIN_SEGMENT_SECONDS, Math.min(max, seg.end + delta)));
+  return segments.map((s, i) => i === index ? fitSegmentWords({ ...clearIssue(s), end }) : s);
+};
+
+/**
+ * Leva o início ou o fim do segmento para `time` (ex: arrastando a borda na
+ * forma de onda), com os mesmos limites de `nudgeSegment`.
+ */
+export const setSegmentEdge = (
+  segments: TranscriptionSegment[],
+  index: number,
+  edge: 'start' | 'end',
+  time: number
+): TranscriptionSegment[] => {
+  const seg = segments[index];
+  return seg ? nudgeSegment(segments, index, edge, time - seg[edge]) : segments;
+};
+
+/**
+ * Localizar e substituir: troca só o texto, mantendo início, fim e locutor.
+ * `indexes` limita a troca a alguns segmentos (ex: só o resultado atual).
+ */
+export const replaceInSegments = (
+  segments: TranscriptionSegment[],
+  pattern: RegExp | null,
+  replacement: string,
+  indexes?: number[]
+): TranscriptionSegment[] =>
+  segments.map((seg, i) => {
+    if (indexes && !indexes.includes(i)) return seg;
+    const text = replaceMatches(seg.text, pattern, replacement);
+    return text === seg.text ? seg : withSegmentText(seg, text);
+  });
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { stitchSegments } from './segmentStitcher';
+
+describe('stitchSegments', () => {
+  it('aplica o deslocamento de cada janela', () => {
+    const result = stitchSegments([
+      { offset: 0, duration: 10, segments: [{ start: 1, end: 4, text: 'Primeira fala.' }] },
+      { offset: 8, duration: 10, segments: [{ start: 2, end: 5, text: 'Segunda fala.' }] }
+    ], 2);
+    expect(result).toEqual([
+      { start: 1, end: 4, text: 'Primeira fala.' },
+      { start: 10, end: 13, text: 'Segunda fala.' }
+    ]);
+  });
+
+  it('corta a sobreposição no meio e mantém uma cópia de cada fala', () => {
+    const result = stitchSegments([
+      { offset: 0, duration: 10, segments: [{ start: 1, end: 5, text: 'a' }, { start: 8.5, end: 9.8, text: 'na sobreposição' }, { start: 9.2, end: 10, text: 'c' }] },
+      { offset: 8, duration: 10, segments: [{ start: 0.5, end: 1.8, text: 'na sobreposição' }, { start: 1.2, end: 2, text: 'c' }, { start: 3, end: 5, text: 'b' }] }
+    ], 2);
+    // Até 9s vale a primeira janela; dali em diante, a segunda
+    expect(result.map(seg => [seg.text, seg.start])).toEqual([['a', 1], ['na sobreposição', 8.5], ['c', 9.2], ['b', 11]]);
+  });
+
+  it('remove as palavras repetidas na fronteira', () => {
+    const result = stitchSegments([
+      { offset: 0, duration: 10, segments: [{ start: 6, end: 9.5, text: 'vamos falar sobre o projeto' }] },
+      { offset: 8, duration: 10, segments: [{ start: 1.2, end: 4, text: 'o Projeto, que começa amanhã' }] }
+    ], 2);
+    expect(result).toEqual([
+      { start: 6, end: 9.5, text: 'vamos falar sobre o projeto' },
+      { start: 9.5, end: 12, text: 'que começa amanhã' }
+    ]);
+  });
+
+  it('descarta o segmento inteiramente repetido e estende o anterior', () => {
+    const result = stitchSegments([
+      { offset: 0, duration: 10, segments: [{ start: 6, end: 9.5, text: 'até logo' }] },
+      { offset: 8, duration: 10, segments: [{ start: 1.5, end: 2.5, text: 'Até logo.' }] }
+    ], 2);
+    expect(result).toEqual([{ start: 6, end: 10.5, text: 'até logo' }]);
+  });
+
+  it('desloca e corta os tempos por palavra junto com o texto', () => {
+    const result = stitchSegments([
+      { offset: 0, duration: 10, segments: [{ start: 0, end: 9.5, text: 'um dois' }] },
+      {
+        offset: 8,
+        duration: 10,
+        segments: [{
+          start: 1.2,
+          end: 3,
+          text: 'dois três',
+          words: [{ text: 'dois', start: 1.2, end: 1.6 }, { text: 'três', start: 1.8, end: 2.4 }]
+        }]
+      }
+    ], 2);
+    expect(result[1].text).toBe('três');
+    expect(result[1].words).toEqual([{ text: 'três', start: 9.8, end: 10.4 }]);
+  });
+});
@@ -0,0 +1,74 @@
+import { TranscriptionSegment } from '../types';
+import { fitSegmentWords, shiftWords } from './wordTimings';
+
+// Transcrição parcial de uma janela, com timestamps relativos ao início da janela
+export interface ChunkTranscript {
+  offset: number;
+  duration: number;
+  segments: TranscriptionSegment[];
+}
+
+// Máximo de palavras repetidas procuradas na fronteira entre janelas
+const MAX_BOUNDARY_WORDS = 15;
+
+const normalizeWord = (word: string): string =>
+  word.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * Quantas palavras do início de `next` repetem o final de `prev`.
+ */
+const countRepeatedWords = (prev: string, next: string): number => {
+  const prevWords = prev.split(/\s+/).filter(Boolean).map(normalizeWord);
+  const nextWords = next.split(/\s+/).filter(Boolean).map(normalizeWord);
+  const max = Math.min(MAX_BOUNDARY_WORDS, prevWords.length, nextWords.length);
+
+  for (let k = max; k > 0; k--) {
+    const tail = prevWords.slice(prevWords.length - k);
+    const head = nextWords.slice(0, k);
+    if (tail.every((w, i) => w === head[i])) return k;
+  }
+  return 0;
+};
+
+/**
+ * Junta as transcrições das janelas em uma única lista de segmentos:
+ * aplica o deslocamento de cada janela, corta a sobreposição no meio
+ * e remove palavras duplicadas na fronteira (e os tempos delas).
+ */
+export const stitchSegments = (chunks: ChunkTranscript[], overlapSeconds: number): TranscriptionSegment[] => {
+  const result: TranscriptionSegment[] = [];
+
+  chunks.forEach((chunk, index) => {
+    const next = chunks[index + 1];
+    // Ponto de corte: metade da sobreposição com a janela seguinte / anterior
+    const cutEnd = next ? next.offset + overlapSeconds / 2 : Infinity;
+    const cutStart = index > 0 ? chunk.offset + overlapSeconds / 2 : -Infinity;
+
+    const shifted = chunk.segments
+      .map(seg => ({ ...seg, start: seg.start + chunk.offset, end: seg.end + chunk.offset, ...(seg.words ? { words: shiftWords(seg.words, chunk.offset) } : {}) }))
+      .filter(seg => seg.start >= cutStart && seg.start < cutEnd);
+
+    if (shifted.length > 0 && result.length > 0) {
+      const last = result[result.length - 1];
+      const first = shifted[0];
+      const repeated = countRepeatedWords(last.text, first.text);
+      if (repeated > 0) {
+        const remaining = first.text.split(/\s+/).filter(Boolean).slice(repeated).join(' ');
+        if (remaining) {
+          shifted[0] = fitSegmentWords({ ...first, text: remaining, start: Math.max(first.start, last.end), ...(first.words ? { words: first.words.slice(repeated) } : {}) });
+        } else {
+          last.end = Math.max(last.end, first.end);
+          shifted.shift();
+        }
+      }
+      if (shifted.length > 0 && shifted[0].start < last.end) {
+        last.end = shifted[0].start;
+      }
+      result[result.length - 1] = fitSegmentWords(last);
+    }
+
+    result.push(...shifted);
+  });
+
+  return result;
+};
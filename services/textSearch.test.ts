@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { compileSearch, countMatches, findMatches, normalizeForSearch, replaceMatches, splitByMatches } from './textSearch';
+
+const literal = { regex: false, wholeWord: false };
+
+describe('normalizeForSearch', () => {
+  it('remove acentos e maiúsculas', () => {
+    expect(normalizeForSearch('Ação Já')).toBe('acao ja');
+  });
+});
+
+describe('compileSearch', () => {
+  it('busca vazia não gera padrão', () => {
+    expect(compileSearch('  ', literal)).toEqual({ pattern: null });
+  });
+
+  it('escapa caracteres especiais no modo literal', () => {
+    const { pattern } = compileSearch('R$ 1.5', literal);
+    expect(countMatches('custa R$ 1.5 ou R$ 105', pattern)).toBe(1);
+  });
+
+  it('informa expressão regular inválida', () => {
+    expect(compileSearch('(abc', { regex: true, wholeWord: false })).toEqual({ pattern: null, error: "Expressão regular inválida." });
+  });
+
+  it('palavra inteira não casa dentro de outra palavra', () => {
+    const { pattern } = compileSearch('ato', { regex: false, wholeWord: true });
+    expect(countMatches('o ato e o contato', pattern)).toBe(1);
+  });
+
+  it('palavra inteira funciona em outros alfabetos', () => {
+    const { pattern } = compileSearch('мир', { regex: false, wholeWord: true });
+    expect(countMatches('привет мир, мировой', pattern)).toBe(1);
+  });
+
+  it('palavra inteira aceita termos que terminam em símbolo', () => {
+    const { pattern } = compileSearch('C++', { regex: false, wholeWord: true });
+    expect(countMatches('uso C++ aqui, não AC++', pattern)).toBe(1);
+  });
+});
+
+describe('findMatches', () => {
+  it('encontra sem diferenciar acentos, nas posições do texto original', () => {
+    const { pattern } = compileSearch('acao', literal);
+    expect(findMatches('Uma Ação e outra ação', pattern)).toEqual([{ start: 4, end: 8 }, { start: 17, end: 21 }]);
+  });
+
+  it('o termo com acento também encontra o texto sem acento', () => {
+    const { pattern } = compileSearch('reunião', literal);
+    expect(countMatches('reuniao de hoje', pattern)).toBe(1);
+  });
+
+  it('aceita expressões regulares', () => {
+    const { pattern } = compileSearch('\\d+ minutos?', { regex: true, wholeWord: false });
+    expect(countMatches('5 minutos ou 1 minuto', pattern)).toBe(2);
+  });
+
+  it('ignora padrões que casam vazio', () => {
+    const { pattern } = compileSearch('x*', { regex: true, wholeWord: false });
+    expect(findMatches('abc', pattern)).toEqual([]);
+  });
+});
+
+describe('splitByMatches e replaceMatches', () => {
+  it('divide o texto em trechos comuns e encontrados', () => {
+    const { pattern } = compileSearch('sao paulo', literal);
+    expect(splitByMatches('Em São Paulo hoje', pattern)).toEqual([
+      { text: 'Em ', match: false },
+      { text: 'São Paulo', match: true },
+      { text: ' hoje', match: false }
+    ]);
+  });
+
+  it('sem padrão devolve o texto inteiro', () => {
+    expect(splitByMatches('texto', null)).toEqual([{ text: 'texto', match: false }]);
+  });
+
+  it('substitui de forma literal, sem grupos', () => {
+    const { pattern } = compileSearch('(clari)a', { regex: true, wholeWord: false });
+    expect(replaceMatches('Claria e claria', pattern, '$1AI')).toBe('$1AI e $1AI');
+  });
+});
@@ -0,0 +1,101 @@
+// Busca dentro de uma transcrição: sem diferenciar acentos e maiúsculas,
+// com modo literal (padrão), expressão regular e palavra inteira.
+
+export const normalizeForSearch = (text: string): string =>
+  text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+export interface SearchOptions {
+  regex: boolean;
+  wholeWord: boolean;
+}
+
+export interface CompiledSearch {
+  pattern: RegExp | null; // null = busca vazia ou inválida
+  error?: string;
+}
+
+export interface TextMatch {
+  start: number; // Posições no texto original (não normalizado)
+  end: number;
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Letra, número ou "_" em qualquer alfabeto (o \b do JS só reconhece ASCII)
+const WORD_CHAR = String.raw`[\p{L}\p{N}_]`;
+const STARTS_WITH_WORD = new RegExp(`^${WORD_CHAR}`, 'u');
+const ENDS_WITH_WORD = new RegExp(`${WORD_CHAR}$`, 'u');
+
+/**
+ * Palavra inteira: nenhuma letra ou número colado ao trecho. No modo literal o
+ * limite só vale nas pontas que são letra ou número ("C++" casa em "C++ é").
+ */
+const wholeWordPattern = (source: string, literal?: string): string => {
+  const before = literal === undefined || STARTS_WITH_WORD.test(literal) ? `(?<!${WORD_CHAR})` : '';
+  const after = literal === undefined || ENDS_WITH_WORD.test(literal) ? `(?!${WORD_CHAR})` : '';
+  return `${before}(?:${source})${after}`;
+};
+
+/**
+ * Monta a RegExp da busca. O padrão perde os acentos e o texto é comparado
+ * já normalizado, então "acao" encontra "Ação" (e vice-versa).
+ */
+export const compileSearch = (term: string, options: SearchOptions): CompiledSearch => {
+  if (!term.trim()) return { pattern: null };
+  const literal = options.regex ? undefined : normalizeForSearch(term);
+  const source = literal === undefined ? term.normalize('NFD').replace(/\p{M}/gu, '') : escapeRegExp(literal);
+  const bounded = options.wholeWord ? wholeWordPattern(source, literal) : source;
+  try {
+    return { pattern: new RegExp(bounded, 'giu') };
+  } catch {
+    return { pattern: null, error: "Expressão regular inválida." };
+  }
+};
+
+// Texto normalizado + posição original de cada caractere (para destacar o trecho certo)
+const foldWithOffsets = (text: string): { folded: string, offsets: number[] } => {
+  let folded = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const piece = normalizeForSearch(text[i]);
+    folded += piece;
+    for (let k = 0; k < piece.length; k++) offsets.push(i);
+  }
+  offsets.push(text.length);
+  return { folded, offsets };
+};
+
+export const findMatches = (text: string, pattern: RegExp | null): TextMatch[] => {
+  if (!pattern || !text) return [];
+  const { folded, offsets } = foldWithOffsets(text);
+  const matches: TextMatch[] = [];
+  for (const match of folded.matchAll(pattern)) {
+    // Padrões que casam vazio (ex: "a*") não geram destaque
+    if (!match[0]) continue;
+    matches.push({ start: offsets[match.index], end: offsets[match.index + match[0].length] });
+  }
+  return matches;
+};
+
+export const countMatches = (text: string, pattern: RegExp | null): number => findMatches(text, pattern).length;
+
+/**
+ * Divide o texto em trechos comuns e trechos encontrados, para destacar na interface.
+ */
+export const splitByMatches = (text: string, pattern: RegExp | null): { text: string, match: boolean }[] => {
+  const parts: { text: string, match: boolean }[] = [];
+  let last = 0;
+  findMatches(text, pattern).forEach(({ start, end }) => {
+    if (start > last) parts.push({ text: text.slice(last, start), match: false });
+    parts.push({ text: text.slice(start, end), match: true });
+    last = end;
+  });
+  if (last < text.length || parts.length === 0) parts.push({ text: text.slice(last), match: false });
+  return parts;
+};
+
+/**
+ * Troca cada ocorrência pelo texto de substituição (literal, sem grupos "$1").
+ */
+export const replaceMatches = (text: string, pattern: RegExp | null, replacement: string): string =>
+  splitByMatches(text, pattern).map(part => part.match ? replacement : part.text).join('');
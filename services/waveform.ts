@@ -0,0 +1,47 @@
+import { decodeAudioFile } from './audioChunker';
+
+// Envelope do áudio decodificado: desenho da forma de onda e detecção de silêncio.
+
+// Resolução do envelope (50 pontos por segundo = 20ms)
+export const PEAKS_PER_SECOND = 50;
+
+export interface Waveform {
+  peaks: Float32Array;    // Pico absoluto de cada janela, normalizado (0 a 1)
+  peaksPerSecond: number;
+  duration: number;       // Segundos
+}
+
+/**
+ * Reduz as amostras a um pico por janela de 1/`peaksPerSecond` segundo.
+ */
+export const computeWaveform = (audio: AudioBuffer, peaksPerSecond = PEAKS_PER_SECOND): Waveform => {
+  const samples = audio.getChannelData(0);
+  const windowSize = Math.max(1, Math.round(audio.sampleRate / peaksPerSecond));
+  const peaks = new Float32Array(Math.ceil(samples.length / windowSize));
+  let max = 0;
+  for (let p = 0; p < peaks.length; p++) {
+    let peak = 0;
+    const end = Math.min(samples.length, (p + 1) * windowSize);
+    for (let i = p * windowSize; i < end; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+    peaks[p] = peak;
+    if (peak > max) max = peak;
+  }
+  if (max > 0) for (let p = 0; p < peaks.length; p++) peaks[p] /= max;
+  return { peaks, peaksPerSecond, duration: audio.duration };
+};
+
+export const loadWaveform = async (audio: Blob): Promise<Waveform> => computeWaveform(await decodeAudioFile(audio));
+
+/**
+ * Maior pico entre `from` e `to` (segundos); usado ao desenhar vários pontos por pixel.
+ */
+export const peakInRange = (waveform: Waveform, from: number, to: number): number => {
+  const first = Math.max(0, Math.floor(from * waveform.peaksPerSecond));
+  const last = Math.min(waveform.peaks.length, Math.max(first + 1, Math.ceil(to * waveform.peaksPerSecond)));
+  let peak = 0;
+  for (let i = first; i < last; i++) if (waveform.peaks[i] > peak) peak = waveform.peaks[i];
+  return peak;
+};
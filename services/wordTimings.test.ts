@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { findWordAt, fitWords, isLowConfidence, normalizeWords, shiftWords, withSegmentText, withoutWords } from './wordTimings';
+
+const words = [
+  { text: 'bom', start: 1, end: 1.4 },
+  { text: 'dia', start: 1.5, end: 2, confidence: 0.4 }
+];
+
+describe('fitWords', () => {
+  it('mantém as palavras dentro do segmento e em ordem', () => {
+    expect(fitWords([{ text: 'a', start: 0.5, end: 1.2 }, { text: 'b', start: 1, end: 3 }], 1, 2)).toEqual([
+      { text: 'a', start: 1, end: 1.2 },
+      { text: 'b', start: 1.2, end: 2 }
+    ]);
+  });
+
+  it('devolve o mesmo objeto para a palavra que não mudou', () => {
+    expect(fitWords(words, 0, 3)[0]).toBe(words[0]);
+  });
+});
+
+describe('normalizeWords', () => {
+  const seg = { start: 1, end: 2, text: 'bom dia' };
+
+  it('usa o texto do segmento e limita a confiança', () => {
+    expect(normalizeWords([{ start: '1', end: 1.4, confidence: -1 }, { start: 1.5, end: 2.5 }], seg)).toEqual([
+      { text: 'bom', start: 1, end: 1.4, confidence: 0 },
+      { text: 'dia', start: 1.5, end: 2 }
+    ]);
+  });
+
+  it('descarta quando não bate com as palavras do texto', () => {
+    expect(normalizeWords([{ start: 1, end: 2 }], seg)).toBeUndefined();
+    expect(normalizeWords([{ start: 1, end: 1.4 }, { start: 'x', end: 2 }], seg)).toBeUndefined();
+    expect(normalizeWords('bom dia', seg)).toBeUndefined();
+  });
+});
+
+describe('withSegmentText', () => {
+  const seg = { start: 1, end: 2, text: 'bom dia', words };
+
+  it('mantém os tempos quando o número de palavras não muda', () => {
+    expect(withSegmentText(seg, 'Bom dia!').words).toEqual([{ ...words[0], text: 'Bom' }, { ...words[1], text: 'dia!' }]);
+  });
+
+  it('descarta os tempos quando muda', () => {
+    expect(withSegmentText(seg, 'bom dia a todos')).toEqual({ start: 1, end: 2, text: 'bom dia a todos' });
+    expect(withoutWords(seg)).toEqual({ start: 1, end: 2, text: 'bom dia' });
+  });
+});
+
+describe('findWordAt e shiftWords', () => {
+  it('entre duas palavras continua na anterior', () => {
+    expect(findWordAt(words, 0.5)).toBe(-1);
+    expect(findWordAt(words, 1.45)).toBe(0);
+    expect(findWordAt(words, 3)).toBe(1);
+  });
+
+  it('desloca todas as palavras', () => {
+    expect(shiftWords(words, 10)?.map(word => word.start)).toEqual([11, 11.5]);
+    expect(shiftWords(undefined, 10)).toBeUndefined();
+  });
+
+  it('marca as palavras de baixa confiança', () => {
+    expect(words.map(isLowConfidence)).toEqual([false, true]);
+  });
+});
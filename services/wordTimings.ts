@@ -0,0 +1,88 @@
+import { TranscriptionSegment, WordTiming } from '../types';
+
+// Tempos por palavra: cada segmento com `words` tem uma entrada para cada
+// palavra do texto, na mesma ordem. Qualquer edição que quebre essa
+// correspondência descarta os tempos do segmento.
+
+// Abaixo disto a palavra é marcada para revisão
+export const LOW_CONFIDENCE = 0.6;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export const splitWords = (text: string): string[] => text.split(/\s+/).filter(Boolean);
+
+const toNumber = (value: unknown): number => typeof value === 'number' ? value : Number(value);
+
+// Remove os tempos por palavra (ex: tradução, texto reescrito)
+export const withoutWords = ({ words, ...seg }: TranscriptionSegment): TranscriptionSegment => seg;
+
+/**
+ * Mantém as palavras dentro do segmento, em ordem e sem sobreposição.
+ */
+export const fitWords = (words: WordTiming[], start: number, end: number): WordTiming[] => {
+  let cursor = start;
+  return words.map(word => {
+    const wordStart = round(Math.min(end, Math.max(cursor, word.start)));
+    const wordEnd = round(Math.min(end, Math.max(wordStart, word.end)));
+    cursor = wordEnd;
+    return wordStart === word.start && wordEnd === word.end ? word : { ...word, start: wordStart, end: wordEnd };
+  });
+};
+
+/**
+ * Reajusta as palavras depois de o segmento mudar de início ou fim.
+ */
+export const fitSegmentWords = (seg: TranscriptionSegment): TranscriptionSegment =>
+  seg.words ? { ...seg, words: fitWords(seg.words, seg.start, seg.end) } : seg;
+
+/**
+ * Valida as palavras vindas do modelo (ou de um JSON importado). Retorna
+ * undefined quando não batem com as palavras do texto do segmento.
+ */
+export const normalizeWords = (items: unknown, seg: TranscriptionSegment): WordTiming[] | undefined => {
+  if (!Array.isArray(items) || items.length === 0) return undefined;
+  const tokens = splitWords(seg.text);
+  if (items.length !== tokens.length) return undefined;
+  const words: WordTiming[] = [];
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    const start = toNumber(item?.start);
+    const end = toNumber(item?.end);
+    if (!Number.isFinite(start) || !Number.isFinite(end)) return undefined;
+    const confidence = toNumber(item?.confidence);
+    words.push({
+      text: tokens[i],
+      start,
+      end,
+      ...(Number.isFinite(confidence) ? { confidence: Math.min(1, Math.max(0, confidence)) } : {})
+    });
+  }
+  return fitWords(words, seg.start, seg.end);
+};
+
+/**
+ * Troca o texto do segmento. Os tempos por palavra sobrevivem quando o número
+ * de palavras não muda (correção de grafia); senão são descartados.
+ */
+export const withSegmentText = (seg: TranscriptionSegment, text: string): TranscriptionSegment => {
+  if (!seg.words) return { ...seg, text };
+  const tokens = splitWords(text);
+  if (tokens.length !== seg.words.length) return { ...withoutWords(seg), text };
+  return { ...seg, text, words: seg.words.map((word, i) => word.text === tokens[i] ? word : { ...word, text: tokens[i] }) };
+};
+
+export const shiftWords = (words: WordTiming[] | undefined, delta: number): WordTiming[] | undefined =>
+  words?.map(word => ({ ...word, start: word.start + delta, end: word.end + delta }));
+
+/**
+ * Palavra sendo falada em `time`: a última que já começou (entre duas
+ * palavras, continua destacada a anterior). -1 antes da primeira.
+ */
+export const findWordAt = (words: WordTiming[], time: number): number => {
+  let found = -1;
+  for (let i = 0; i < words.length && words[i].start <= time; i++) found = i;
+  return found;
+};
+
+export const isLowConfidence = (word: WordTiming): boolean =>
+  word.confidence !== undefined && word.confidence < LOW_CONFIDENCE;
@@ -10,6 +10,16 @@ export interface TranscriptionSegment {
   start: number;
   end: number;
   text: string;
+  speaker?: string; // Rótulo do locutor (ex: "Locutor 1"), renomeável pelo usuário
+  issue?: string;   // Motivo quando o segmento não passou na validação (some ao ser editado)
+  words?: WordTiming[]; // Tempos por palavra, um para cada palavra do texto (quando pedidos)
+}
+
+export interface WordTiming {
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number; // 0 a 1, segundo o modelo
 }
 
 export interface Metadata {
@@ -20,12 +30,133 @@ export interface Metadata {
 export interface TranscriptionResponse {
   text: string;
   category?: string;
+  language?: string; // Idioma falado (ISO 639-1), detectado ou informado pelo usuário
   metadata?: Metadata; // Novo campo para Título e Descrição
   segments: TranscriptionSegment[];
   confidence: number;
+  profileId?: string; // Perfil usado na transcrição (define o modelo do resumo)
 }
 
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
-}
\ No newline at end of file
+  // Mensagem de falha exibida no chat (não é enviada como histórico)
+  isError?: boolean;
+}
+
+export interface Note {
+  timestamp: number;
+  text: string;
+}
+
+// Item do resumo estruturado, ligado ao trecho da transcrição onde foi dito
+export interface SummaryItem {
+  text: string;
+  start?: number; // Início do segmento de origem (segundos)
+}
+
+export interface ActionItem extends SummaryItem {
+  owner?: string;
+  dueDate?: string; // Prazo como foi dito (ex: "sexta-feira", "15/03")
+  done?: boolean;
+}
+
+// Ata de reunião: encaminhamentos, decisões, dúvidas em aberto e tópicos
+export interface MeetingSummary {
+  overview: string;
+  actionItems: ActionItem[];
+  decisions: SummaryItem[];
+  questions: SummaryItem[];
+  topics: SummaryItem[];
+}
+
+// Capítulo da gravação; termina onde começa o próximo
+export interface Chapter {
+  title: string;
+  start: number; // Segundos
+}
+
+// Estado de trabalho editável de uma transcrição aberta
+export interface TranscriptionWorkspace {
+  text: string;
+  segments: TranscriptionSegment[];
+  notes: Note[];
+  summary: string | null;
+  meetingSummary: MeetingSummary | null;
+  chapters: Chapter[] | null;
+  translations: TranslationCache;
+  chatHistory: ChatMessage[];
+}
+
+// Entrada da biblioteca local (IndexedDB)
+export interface LibraryEntry extends Omit<TranscriptionWorkspace, 'text' | 'segments'> {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  response: TranscriptionResponse;
+  audio: Blob | null;
+  audioName?: string;
+  sourceUrl?: string;
+}
+
+// Etapas do pipeline reportadas durante a transcrição
+export type ProgressStage = 'reading' | 'uploading' | 'transcribing' | 'metadata' | 'aligning' | 'searching' | 'formatting';
+
+export interface ProgressEvent {
+  stage: ProgressStage;
+  fraction: number; // Progresso total do job (0 a 1)
+  current?: number; // Trecho N de M (transcribing) ou tentativa N de M (searching/formatting)
+  total?: number;
+}
+
+// Opções escolhidas pelo usuário ao iniciar uma transcrição
+export interface TranscriptionOptions {
+  language?: string; // Força o idioma de origem (sem detecção automática)
+  onProgress?: (event: ProgressEvent) => void;
+  signal?: AbortSignal; // Cancela o job (requisições, retentativas e etapas seguintes)
+  chunkSeconds?: number; // Força a divisão em trechos desta duração (ex: arquivo grande demais)
+  vocabulary?: string[]; // Grafias esperadas de nomes e termos (dica para o modelo)
+  profile?: PromptProfile;
+  wordTimings?: boolean; // Pede tempos e confiança por palavra (resposta maior e mais lenta)
+  onAudioDecoded?: (audio: AudioBuffer) => void; // Áudio já decodificado pelo provedor (reaproveitado no realinhamento)
+}
+
+// Perfil de uso (consulta médica, audiência, podcast...): instruções por contexto
+export interface PromptProfile {
+  id: string;
+  name: string;
+  transcriptionPrompt: string; // Papel e instruções do transcritor (as regras de formato JSON são fixas)
+  vocabulary: string[];
+  summaryTemplate: string;     // Instrução do resumo; a transcrição vai logo depois
+  categories: string[];        // Categorias permitidas (vazio = livre)
+  model?: string;              // Modelo do Gemini para transcrever e resumir (vazio = GEMINI_MODEL do .env)
+  wordTimings?: boolean;       // Tempos por palavra (destaque palavra a palavra e legendas mais justas)
+}
+
+export interface ChatOptions {
+  signal?: AbortSignal;
+  onChunk?: (text: string) => void; // Recebe o texto acumulado enquanto a resposta chega
+  profile?: PromptProfile; // Modelo usado na conversa
+}
+
+// Traduções por idioma de destino, segmento a segmento (mesmos tempos do original)
+export type TranslationCache = Record<string, TranscriptionSegment[]>;
+
+export type ProviderName = 'gemini' | 'mock';
+
+// Contrato comum a todos os backends de IA (Gemini, mock offline...)
+export interface TranscriptionProvider {
+  name: ProviderName;
+  transcribeAudio: (file: File, options?: TranscriptionOptions) => Promise<TranscriptionResponse>;
+  transcribeUrl: (url: string, options?: TranscriptionOptions) => Promise<TranscriptionResponse>;
+  // Trecho curto (ex: gravação ao vivo), sem metadados; tempos relativos ao trecho
+  transcribeChunk: (audio: Blob, options?: TranscriptionOptions) => Promise<TranscriptionSegment[]>;
+  generateMetadata: (text: string, signal?: AbortSignal) => Promise<Metadata>;
+  generateSummary: (text: string, signal?: AbortSignal, profile?: PromptProfile) => Promise<string>;
+  generateMeetingSummary: (segments: TranscriptionSegment[], signal?: AbortSignal, profile?: PromptProfile) => Promise<MeetingSummary>;
+  generateChapters: (segments: TranscriptionSegment[], signal?: AbortSignal, profile?: PromptProfile) => Promise<Chapter[]>;
+  translateSegments: (segments: TranscriptionSegment[], targetLanguage: string, signal?: AbortSignal, profile?: PromptProfile) => Promise<TranscriptionSegment[]>;
+  refineText: (text: string, signal?: AbortSignal, profile?: PromptProfile) => Promise<string>;
+  sendChatMessage: (history: ChatMessage[], context: string, question: string, options?: ChatOptions) => Promise<string>;
+}
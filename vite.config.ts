@@ -17,7 +17,10 @@ export default defineConfig(({ mode }) => {
         plugins: [react()],
         define: {
             'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-            'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+            'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+            // Provedor de IA ('gemini' ou 'mock' para uso offline) e modelo do Gemini
+            'process.env.TRANSCRIPTION_PROVIDER': JSON.stringify(env.TRANSCRIPTION_PROVIDER),
+            'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL)
         },
         resolve: {
             alias: {